@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SleeperPlayers } from '@/types'
+import { getPlayerDatabase, getPlayersETag } from '@/lib/playerDatabase'
+
+export const dynamic = 'force-dynamic'
+
+// Upper bound on IDs per request; the client splits larger sets into smaller chunks
+const MAX_PLAYER_IDS = 1000
+
+// GET /api/players?ids=4046,6794,KC
+// Serves only the requested players from the server-side Sleeper player database
+export async function GET(request: NextRequest) {
+  const idsParam = request.nextUrl.searchParams.get('ids') || ''
+  const playerIds = Array.from(new Set(idsParam.split(',').map(id => id.trim()).filter(Boolean))).sort()
+
+  if (playerIds.length === 0) {
+    return NextResponse.json({ error: 'Missing ids query parameter' }, { status: 400 })
+  }
+  if (playerIds.length > MAX_PLAYER_IDS) {
+    return NextResponse.json({ error: `At most ${MAX_PLAYER_IDS} player IDs per request` }, { status: 400 })
+  }
+
+  try {
+    const database = await getPlayerDatabase()
+    const etag = getPlayersETag(database.version, playerIds)
+    const headers = {
+      'ETag': etag,
+      'Cache-Control': 'private, no-cache',
+      'Last-Modified': new Date(database.updatedAt).toUTCString()
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers })
+    }
+
+    const players: SleeperPlayers = {}
+    const missing: string[] = []
+    for (const playerId of playerIds) {
+      if (database.players[playerId]) {
+        players[playerId] = database.players[playerId]
+      } else {
+        missing.push(playerId)
+      }
+    }
+
+    return NextResponse.json({ players, missing, updatedAt: database.updatedAt }, { headers })
+  } catch (error: any) {
+    console.error('Error serving Sleeper players:', error)
+    return NextResponse.json({ error: 'Sleeper player database unavailable' }, { status: 502 })
+  }
+}
\ No newline at end of file
@@ -3,17 +3,18 @@
 import { useState, useEffect } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
-import { storage } from '@/lib/storage'
+import { storage, AppView } from '@/lib/storage'
 import AuthForm from '@/components/AuthForm'
 import Dashboard from '@/components/Dashboard'
 import RedZoneView from '@/components/RedZoneView'
 import AllLeaguesView from '@/components/AllLeaguesView'
+import ExposureView from '@/components/ExposureView'
 import Image from 'next/image'
 
 export default function Home() {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
-  const [currentView, setCurrentView] = useState<'dashboard' | 'redzone' | 'allleagues'>(
+  const [currentView, setCurrentView] = useState<AppView>(
     typeof window !== 'undefined' ? (storage.getCurrentView() || 'dashboard') : 'dashboard'
   )
 
@@ -96,6 +97,13 @@ export default function Home() {
     }} />
   }
 
+  if (currentView === 'exposure') {
+    return <ExposureView user={user} onBackToDashboard={() => {
+      setCurrentView('dashboard')
+      storage.setCurrentView('dashboard')
+    }} />
+  }
+
   return (
     <Dashboard
       user={user}
@@ -108,6 +116,10 @@ export default function Home() {
         setCurrentView('allleagues')
         storage.setCurrentView('allleagues')
       }}
+      onViewExposure={() => {
+        setCurrentView('exposure')
+        storage.setCurrentView('exposure')
+      }}
     />
   )
 }
\ No newline at end of file
@@ -1,217 +1,359 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { Fragment, useState, useMemo } from 'react'
 import { User } from '@supabase/supabase-js'
-import { supabase } from '@/lib/supabase'
+import { fetchSleeperPlayersByIds, fetchSleeperProjections } from '@/lib/api'
+import { ESPNGame, UserLeague, LeagueMatchup, LeagueMatchupProjection, ReserveSlot, SleeperPlayers, SleeperProjectionStats } from '@/types'
+import { SleeperPlayerError, getPlayerName, isEmptySlot, resolvePlayer } from '@/lib/players'
+import { projectLeagueMatchup } from '@/lib/projections'
+import { getWinProbability } from '@/lib/winProbability'
+import { getLeagueName } from '@/lib/leagueLoading'
+import { SEASON_TYPE_LABELS, WeekSelection, getFantasyRoundLabel, getWeekLabel } from '@/lib/weekResolution'
 import {
-  fetchSleeperNFLState,
-  fetchSleeperLeagueRosters,
-  fetchSleeperLeagueUsers,
-  fetchSleeperMatchups,
-  fetchSleeperPlayers,
-  findUserRoster,
-  findOpponentRoster,
-  getEffectiveCurrentWeek
-} from '@/lib/api'
-import { UserLeague, SleeperRoster, SleeperUser, SleeperMatchup } from '@/types'
+  LeagueWeekData,
+  RosterReserves,
+  buildLeagueMatchup,
+  getLeagueWeekData,
+  joinLeagueWeek
+} from '@/lib/leagueData'
+import { useLeagueWeek } from '@/lib/useLeagueWeek'
+import { findOutscoringBench } from '@/lib/lineups'
+import { getSlotLabel, getSlotPositions, getStarterSlots } from '@/lib/rosterSlots'
+import WinProbabilityBar from './WinProbabilityBar'
+import PlayerErrorsNotice from './PlayerErrorsNotice'
+import LeagueStatusStrip from './LeagueStatusStrip'
+import WeekNavigator from './WeekNavigator'
 
 interface AllLeaguesViewProps {
   user: User
   onBackToDashboard: () => void
 }
 
+interface LineupStarter {
+  playerId: string
+  name: string
+  position: string
+  team: string
+  jerseyNumber: string
+  // Live fantasy points this week
+  points: number
+}
+
+type LineupReserves = Record<ReserveSlot, LineupStarter[]>
+
+const RESERVE_SECTIONS: { slot: ReserveSlot, label: string }[] = [
+  { slot: 'bench', label: 'Bench' },
+  { slot: 'reserve', label: 'IR' },
+  { slot: 'taxi', label: 'Taxi' }
+]
+
 interface LeagueLineup {
   leagueId: string
   leagueName: string
+  // Starting slots from the league's roster_positions, e.g. QB, RB, FLEX
+  slots: string[]
   userRoster: {
     rosterId: number
     owner: string
-    starters: Array<{
-      playerId: string
-      name: string
-      position: string
-      team: string
-      jerseyNumber: string
-    }>
+    // Parallel to slots; null for empty or unresolvable slots
+    starters: (LineupStarter | null)[]
+    reserves: LineupReserves
   }
   opponentRoster: {
     rosterId: number
     owner: string
-    starters: Array<{
-      playerId: string
-      name: string
-      position: string
-      team: string
-      jerseyNumber: string
-    }>
+    starters: (LineupStarter | null)[]
+    reserves: LineupReserves
   } | null
   matchupId: number | null
+  matchup: LeagueMatchup | null
 }
 
-export default function AllLeaguesView({ user, onBackToDashboard }: AllLeaguesViewProps) {
-  const [userLeagues, setUserLeagues] = useState<UserLeague[]>([])
-  const [leagueLineups, setLeagueLineups] = useState<LeagueLineup[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState('')
-  const [currentWeek, setCurrentWeek] = useState(1)
-  const [sleeperPlayers, setSleeperPlayers] = useState<Record<string, any>>({})
+// Resolve starter IDs to display data, keeping each starter in its slot; empty
+// slots are null and missing or invalid players are reported in playerErrors
+const mapStarters = (
+  starters: string[],
+  players: SleeperPlayers,
+  leagueName: string,
+  playerErrors: SleeperPlayerError[],
+  playersPoints: Record<string, number> = {}
+): (LineupStarter | null)[] => {
+  return starters.map(playerId => {
+    if (isEmptySlot(playerId)) return null
 
-  const fetchUserLeagues = async () => {
     try {
-      const { data, error } = await supabase
-        .from('user_leagues')
-        .select('*')
-        .eq('user_id', user.id)
-
-      if (error) throw error
-      setUserLeagues(data || [])
-    } catch (error: any) {
-      setError('Error fetching leagues: ' + error.message)
+      const player = resolvePlayer(players, playerId, leagueName)
+      return {
+        playerId,
+        name: getPlayerName(player),
+        position: player.position || 'N/A',
+        team: player.team || 'FA',
+        jerseyNumber: player.number?.toString() || '',
+        points: playersPoints[playerId] || 0
+      }
+    } catch (error) {
+      if (!(error instanceof SleeperPlayerError)) throw error
+      playerErrors.push(error)
+      return null
     }
-  }
+  })
+}
 
-  const fetchAllLeagueLineups = useCallback(async (week: number, players: Record<string, any>) => {
-    const allLineups: LeagueLineup[] = []
+const filledSlots = (starters: (LineupStarter | null)[]): LineupStarter[] =>
+  starters.filter((starter): starter is LineupStarter => !!starter)
+
+// Resolve every reserve slot of a roster the same way as its starters
+const mapReserves = (
+  reserves: RosterReserves,
+  players: SleeperPlayers,
+  leagueName: string,
+  playerErrors: SleeperPlayerError[],
+  playersPoints: Record<string, number> = {}
+): LineupReserves => ({
+  bench: filledSlots(mapStarters(reserves.bench, players, leagueName, playerErrors, playersPoints)),
+  reserve: filledSlots(mapStarters(reserves.reserve, players, leagueName, playerErrors, playersPoints)),
+  taxi: filledSlots(mapStarters(reserves.taxi, players, leagueName, playerErrors, playersPoints))
+})
+
+const EMPTY_RESERVES: LineupReserves = { bench: [], reserve: [], taxi: [] }
+
+const getReserveIds = (reserves: RosterReserves) => [...reserves.bench, ...reserves.reserve, ...reserves.taxi]
+
+interface LeagueEntry {
+  lineup: LeagueLineup
+  userStarters: string[]
+  opponentStarters: string[]
+  userReserves: RosterReserves
+  opponentReserves: RosterReserves
+  userPoints: Record<string, number>
+  opponentPoints: Record<string, number>
+}
 
-    try {
-      for (const league of userLeagues) {
-        const leagueId = league.sleeper_league_id
-        const leagueName = league.custom_nickname || league.league_name || 'League'
-
-        // Fetch league data in parallel
-        const [rosters, users, matchups] = await Promise.all([
-          fetchSleeperLeagueRosters(leagueId),
-          fetchSleeperLeagueUsers(leagueId),
-          fetchSleeperMatchups(leagueId, week)
-        ])
-
-        // Find user's roster using stored Sleeper user ID
-        const sleeperUserId = league.sleeper_user_id
-        if (!sleeperUserId) {
-          console.warn(`No Sleeper user ID stored for league ${leagueId}`)
-          continue
-        }
-
-        const userRoster = findUserRoster(rosters, sleeperUserId)
-        if (!userRoster) {
-          console.warn(`User roster not found in league ${leagueId}`)
-          continue
-        }
-
-        // Find user's matchup
-        const userMatchup = matchups.find(m => m.roster_id === userRoster.roster_id)
-
-        // Find opponent's roster and matchup
-        const opponentRoster = findOpponentRoster(rosters, matchups, userRoster.roster_id)
-        const opponentMatchup = userMatchup ? matchups.find(m =>
-          m.matchup_id === userMatchup.matchup_id && m.roster_id !== userRoster.roster_id
-        ) : null
-
-        // Get user owner name
-        const userOwner = users.find(u => u.user_id === userRoster.owner_id)?.display_name || 'You'
-
-        // Get opponent owner name
-        const opponentOwner = opponentRoster ?
-          users.find(u => u.user_id === opponentRoster.owner_id)?.display_name || 'Opponent' : null
-
-        // Use matchup starters when available (more current than roster)
-        const actualUserStarters = userMatchup?.starters || userRoster.starters
-        const actualOpponentStarters = opponentMatchup?.starters || opponentRoster?.starters
-
-        // Process user starters
-        const userStartersData = actualUserStarters?.map(playerId => {
-          if (playerId && players[playerId]) {
-            const player = players[playerId]
-            return {
-              playerId,
-              name: `${player.first_name} ${player.last_name}`,
-              position: player.position || 'N/A',
-              team: player.team || 'FA',
-              jerseyNumber: player.number?.toString() || ''
-            }
-          }
-          return null
-        }).filter(Boolean) || []
-
-        // Process opponent starters
-        const opponentStartersData = actualOpponentStarters?.map(playerId => {
-          if (playerId && players[playerId]) {
-            const player = players[playerId]
-            return {
-              playerId,
-              name: `${player.first_name} ${player.last_name}`,
-              position: player.position || 'N/A',
-              team: player.team || 'FA',
-              jerseyNumber: player.number?.toString() || ''
-            }
-          }
-          return null
-        }).filter(Boolean) || []
+// Join one league's data from the shared store; starters are resolved to
+// players once every league's player IDs are known
+const buildLeagueEntry = (league: UserLeague, data: LeagueWeekData): LeagueEntry | null => {
+  const join = joinLeagueWeek(league, data)
+  if (!join) return null
+
+  const { userRoster, userMatchup, opponentRoster, opponentMatchup } = join
+
+  return {
+    lineup: {
+      leagueId: league.sleeper_league_id,
+      leagueName: getLeagueName(league),
+      slots: getStarterSlots(data.league.roster_positions),
+      userRoster: {
+        rosterId: userRoster.roster_id,
+        owner: join.userOwner,
+        starters: [],
+        reserves: EMPTY_RESERVES
+      },
+      opponentRoster: opponentRoster ? {
+        rosterId: opponentRoster.roster_id,
+        owner: join.opponentOwner || 'Opponent',
+        starters: [],
+        reserves: EMPTY_RESERVES
+      } : null,
+      matchupId: userMatchup?.matchup_id || null,
+      matchup: buildLeagueMatchup(league, data)
+    },
+    userStarters: join.userStarters,
+    opponentStarters: join.opponentStarters,
+    userReserves: join.userReserves,
+    opponentReserves: join.opponentReserves,
+    userPoints: userMatchup?.players_points || {},
+    opponentPoints: opponentMatchup?.players_points || {}
+  }
+}
 
-        allLineups.push({
-          leagueId: league.sleeper_league_id,
-          leagueName,
-          userRoster: {
-            rosterId: userRoster.roster_id,
-            owner: userOwner,
-            starters: userStartersData as any
-          },
-          opponentRoster: opponentRoster ? {
-            rosterId: opponentRoster.roster_id,
-            owner: opponentOwner || 'Opponent',
-            starters: opponentStartersData as any
-          } : null,
-          matchupId: userMatchup?.matchup_id || null
-        })
-      }
+// One row per starting slot, pairing my starter with my opponent's. Leagues
+// without roster positions fall back to each starter's own position.
+const getSlotRows = (lineup: LeagueLineup) => {
+  const userStarters = lineup.userRoster.starters
+  const opponentStarters = lineup.opponentRoster?.starters || []
+  const rowCount = Math.max(lineup.slots.length, userStarters.length, opponentStarters.length)
+
+  return Array.from({ length: rowCount }, (_, index) => ({
+    slot: lineup.slots[index] || userStarters[index]?.position || opponentStarters[index]?.position || '-',
+    userStarter: userStarters[index] || null,
+    opponentStarter: opponentStarters[index] || null
+  }))
+}
 
-      setLeagueLineups(allLineups)
+// A starter in their lineup slot; empty slots are shown so they stand out
+function LineupSlotCard({ player, alignRight = false }: { player: LineupStarter | null, alignRight?: boolean }) {
+  if (!player) {
+    return (
+      <div className={`bg-red-900/20 border border-red-800/50 p-2 rounded text-sm text-red-300 ${alignRight ? 'text-right' : ''}`}>
+        Empty
+      </div>
+    )
+  }
 
-    } catch (error: any) {
-      setError('Error fetching league lineups: ' + error.message)
-    }
-  }, [userLeagues])
+  return (
+    <div className={`bg-slate-700/30 border border-slate-600/50 p-2 rounded flex items-center justify-between gap-2 ${alignRight ? 'flex-row-reverse' : ''}`}>
+      <div className={`flex items-center gap-2 min-w-0 ${alignRight ? 'flex-row-reverse text-right' : ''}`}>
+        <img
+          src={player.position === 'DEF' || player.name.includes('Defense')
+            ? `https://sleepercdn.com/images/team_logos/nfl/${player.team.toLowerCase()}.png`
+            : `https://sleepercdn.com/content/nfl/players/${player.playerId}.jpg`
+          }
+          alt={player.name}
+          className="w-6 h-6 rounded-full object-cover bg-slate-600 flex-shrink-0"
+          onError={(e) => {
+            (e.target as HTMLImageElement).style.display = 'none'
+          }}
+        />
+        <div className="text-sm min-w-0">
+          <div className="truncate">
+            {player.jerseyNumber && (
+              <span className="text-slate-300 font-medium">#{player.jerseyNumber} </span>
+            )}
+            <span className="text-white font-medium">{player.name}</span>
+          </div>
+          <div className="text-xs text-slate-400 font-medium">{player.position} - {player.team}</div>
+        </div>
+      </div>
+      <div className="text-sm font-bold text-white tabular-nums">{player.points.toFixed(1)}</div>
+    </div>
+  )
+}
 
-  const refreshData = useCallback(async () => {
-    if (userLeagues.length === 0) {
-      setError('No leagues configured. Please add leagues first.')
-      return
-    }
+// Bench, IR and taxi players under a lineup, flagging bench players who are
+// outscoring the lowest-scoring starter at their position
+function ReserveList({ starters, reserves }: { starters: LineupStarter[], reserves: LineupReserves }) {
+  const outscoring = findOutscoringBench(starters, reserves.bench)
 
-    setLoading(true)
-    setError('')
+  return (
+    <>
+      {RESERVE_SECTIONS.filter(({ slot }) => reserves[slot].length > 0).map(({ slot, label }) => (
+        <div key={slot} className="mt-3">
+          <div className="text-xs font-semibold text-slate-500 uppercase mb-1">{label}</div>
+          <div className="space-y-1">
+            {reserves[slot].map(player => {
+              const outscoredStarter = outscoring.get(player.playerId)
+              return (
+                <div
+                  key={player.playerId}
+                  className={`flex items-center justify-between px-2 py-1 rounded text-sm ${
+                    outscoredStarter ? 'bg-amber-900/30 border border-amber-700/50' : 'bg-slate-700/20'
+                  }`}
+                  title={outscoredStarter ? `Outscoring starter ${outscoredStarter.name} (${outscoredStarter.points.toFixed(1)})` : undefined}
+                >
+                  <span className="text-slate-300">
+                    {player.name} <span className="text-xs text-slate-500">{player.position} - {player.team}</span>
+                  </span>
+                  <span className={`tabular-nums ${outscoredStarter ? 'text-amber-300 font-bold' : 'text-slate-400'}`}>
+                    {player.points.toFixed(1)}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      ))}
+    </>
+  )
+}
 
-    try {
-      // Get current week and players data
-      const [week, playersData] = await Promise.all([
-        getEffectiveCurrentWeek(),
-        fetchSleeperPlayers()
+export default function AllLeaguesView({ user, onBackToDashboard }: AllLeaguesViewProps) {
+  const [leagueLineups, setLeagueLineups] = useState<LeagueLineup[]>([])
+  const [sleeperPlayers, setSleeperPlayers] = useState<SleeperPlayers>({})
+  const [playerErrors, setPlayerErrors] = useState<SleeperPlayerError[]>([])
+  const [games, setGames] = useState<ESPNGame[]>([])
+  const [projections, setProjections] = useState<Record<string, SleeperProjectionStats>>({})
+
+  const {
+    week,
+    fantasyWeek,
+    browsedWeek,
+    leagueStates,
+    loading,
+    error,
+    setError,
+    retryLeague,
+    refreshData,
+    changeWeek
+  } = useLeagueWeek(user, {
+    // Rebuild lineups from the shared league data store, resolving starters for
+    // every league loaded so far
+    rebuild: async (leagues, week) => {
+      const leagueEntries = leagues
+        .map(league => {
+          const data = getLeagueWeekData(league.sleeper_league_id, week)
+          return data ? buildLeagueEntry(league, data) : null
+        })
+        .filter((entry): entry is LeagueEntry => !!entry)
+      if (leagueEntries.length === 0) return
+
+      // Only the rostered players in play are fetched from the server-side player database
+      const playerIds = leagueEntries.flatMap(entry => [
+        ...entry.userStarters,
+        ...entry.opponentStarters,
+        ...getReserveIds(entry.userReserves),
+        ...getReserveIds(entry.opponentReserves)
       ])
+      const players = await fetchSleeperPlayersByIds(playerIds)
 
-      setCurrentWeek(week)
-      setSleeperPlayers(playersData)
+      return () => {
+        const allPlayerErrors: SleeperPlayerError[] = []
 
-      // Fetch lineups for all leagues
-      await fetchAllLeagueLineups(week, playersData)
+        // Process starters and reserves, collecting any that are missing from the player database
+        const allLineups = leagueEntries.map(entry => ({
+          ...entry.lineup,
+          userRoster: {
+            ...entry.lineup.userRoster,
+            starters: mapStarters(entry.userStarters, players, entry.lineup.leagueName, allPlayerErrors, entry.userPoints),
+            reserves: mapReserves(entry.userReserves, players, entry.lineup.leagueName, allPlayerErrors, entry.userPoints)
+          },
+          opponentRoster: entry.lineup.opponentRoster ? {
+            ...entry.lineup.opponentRoster,
+            starters: mapStarters(entry.opponentStarters, players, entry.lineup.leagueName, allPlayerErrors, entry.opponentPoints),
+            reserves: mapReserves(entry.opponentReserves, players, entry.lineup.leagueName, allPlayerErrors, entry.opponentPoints)
+          } : null
+        }))
+
+        setSleeperPlayers(players)
+        setLeagueLineups(allLineups)
+        setPlayerErrors(allPlayerErrors)
+      }
+    },
+    onWeekLoaded: (scoreboard, fantasyWeek) => {
+      setGames(scoreboard.events)
+      if (fantasyWeek === null) {
+        setLeagueLineups([])
+        return
+      }
 
-    } catch (error: any) {
-      setError('Error fetching data: ' + error.message)
-    } finally {
-      setLoading(false)
+      // Projections only feed the win probabilities, so a failure should not block lineups
+      fetchSleeperProjections(scoreboard.season.year, fantasyWeek)
+        .then(setProjections)
+        .catch(() => setProjections({}))
     }
-  }, [userLeagues.length, fetchAllLeagueLineups])
+  })
+  const { seasonType, week: currentWeek } = week
 
-  // Load user leagues on mount
-  useEffect(() => {
-    fetchUserLeagues()
-  }, [])
+  // Browse to another week; lineups are rebuilt once its leagues load
+  const browseWeek = (selection: WeekSelection | null) => {
+    setLeagueLineups([])
+    changeWeek(selection)
+  }
 
-  // Auto-refresh when leagues are loaded
-  useEffect(() => {
-    if (userLeagues.length > 0) {
-      refreshData()
+  // Live projection and win probability for every league matchup
+  const leagueProjections = useMemo(() => {
+    const projectionsByLeague = new Map<string, LeagueMatchupProjection>()
+    for (const league of leagueLineups) {
+      if (league.matchup) {
+        projectionsByLeague.set(league.leagueId, projectLeagueMatchup(league.matchup, games, sleeperPlayers, projections))
+      }
     }
-  }, [userLeagues.length, refreshData])
+    return projectionsByLeague
+  }, [leagueLineups, games, sleeperPlayers, projections])
+
+  // Week shown in the week navigator
+  const shownWeek: WeekSelection | null = browsedWeek || (games[0]
+    ? { season: games[0].season.year, seasonType, week: currentWeek }
+    : null)
 
   return (
     <div className="min-h-screen bg-slate-900 text-white">
@@ -227,10 +369,19 @@ export default function AllLeaguesView({ user, onBackToDashboard }: AllLeaguesVi
             </button>
             <div className="text-center">
               <h1 className="text-3xl font-bold">All League Lineups</h1>
-              <p className="text-sm text-slate-400 mt-1">Week {currentWeek}</p>
+              {shownWeek ? (
+                <WeekNavigator
+                  selection={shownWeek}
+                  isCurrent={!browsedWeek}
+                  disabled={loading}
+                  onChange={browseWeek}
+                />
+              ) : (
+                <p className="text-sm text-slate-400 mt-1">{getWeekLabel(seasonType, currentWeek)}</p>
+              )}
             </div>
             <button
-              onClick={refreshData}
+              onClick={() => refreshData()}
               disabled={loading}
               className="btn btn-primary"
             >
@@ -242,17 +393,25 @@ export default function AllLeaguesView({ user, onBackToDashboard }: AllLeaguesVi
 
       {/* Content */}
       <div className="container mx-auto p-4">
+        <LeagueStatusStrip states={leagueStates} onRetry={retryLeague} />
+        <PlayerErrorsNotice errors={playerErrors} />
+
         {loading ? (
           <div className="text-center py-20">
             <div className="text-2xl font-semibold text-slate-300 mb-4">Loading lineups...</div>
             <div className="text-slate-400">Fetching data from all your leagues</div>
           </div>
+        ) : fantasyWeek === null ? (
+          <div className="text-center py-20">
+            <div className="text-2xl font-semibold text-slate-300 mb-4">No fantasy matchups this week</div>
+            <div className="text-slate-400">Fantasy leagues do not play during the NFL {SEASON_TYPE_LABELS[seasonType]?.toLowerCase()}</div>
+          </div>
         ) : leagueLineups.length === 0 ? (
           <div className="text-center py-20">
             <div className="text-2xl font-semibold text-slate-300 mb-4">No lineups found</div>
             <div className="text-slate-400 mb-6">Make sure you have leagues configured and try refreshing</div>
             <button
-              onClick={refreshData}
+              onClick={() => refreshData()}
               className="btn btn-primary"
             >
               Refresh Data
@@ -264,82 +423,68 @@ export default function AllLeaguesView({ user, onBackToDashboard }: AllLeaguesVi
               <div key={league.leagueId} className="card p-6">
                 <h2 className="text-xl font-bold text-white mb-4 border-b border-slate-700 pb-2">
                   {league.leagueName}
+                  {league.matchup?.round && (
+                    <span className="ml-3 text-sm font-normal text-amber-300">{getFantasyRoundLabel(league.matchup.round)}</span>
+                  )}
                 </h2>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {/* User's Lineup */}
-                  <div>
-                    <h3 className="text-lg font-semibold text-emerald-400 mb-3">
-                      {league.userRoster.owner} (You)
-                    </h3>
-                    <div className="space-y-2">
-                      {league.userRoster.starters.map((player, index) => (
-                        <div key={`${player.playerId}-${index}`} className="bg-slate-700/30 border border-slate-600/50 p-2 rounded">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-2">
-                              <img
-                                src={player.position === 'DEF' || player.name.includes('Defense')
-                                  ? `https://sleepercdn.com/images/team_logos/nfl/${player.team.toLowerCase()}.png`
-                                  : `https://sleepercdn.com/content/nfl/players/${player.playerId}.jpg`
-                                }
-                                alt={player.name}
-                                className="w-6 h-6 rounded-full object-cover bg-slate-600"
-                                onError={(e) => {
-                                  (e.target as HTMLImageElement).style.display = 'none'
-                                }}
-                              />
-                              <div className="text-sm">
-                                {player.jerseyNumber && (
-                                  <span className="text-slate-300 font-medium">#{player.jerseyNumber} </span>
-                                )}
-                                <span className="text-white font-medium">{player.name}</span>
-                              </div>
-                            </div>
-                            <div className="text-xs text-slate-400 font-medium">
-                              {player.position} - {player.team}
-                            </div>
-                          </div>
+                {/* Score and Win Probability */}
+                {(() => {
+                  const projection = leagueProjections.get(league.leagueId)
+                  if (!projection) return null
+                  return (
+                    <div className="mb-4">
+                      <div className="flex items-center justify-between tabular-nums mb-2">
+                        <div>
+                          <span className="text-lg font-bold text-white">{projection.userRoster.points.toFixed(1)}</span>
+                          <span className="text-xs text-slate-400"> ({projection.userRoster.projectedPoints.toFixed(1)} proj)</span>
+                        </div>
+                        <div className="text-right">
+                          <span className="text-lg font-bold text-white">{projection.opponentRoster.points.toFixed(1)}</span>
+                          <span className="text-xs text-slate-400"> ({projection.opponentRoster.projectedPoints.toFixed(1)} proj)</span>
                         </div>
-                      ))}
+                      </div>
+                      <WinProbabilityBar winProbability={getWinProbability(projection)} />
                     </div>
-                  </div>
+                  )
+                })()}
+
+                {/* Lineups slot by slot */}
+                <div className="grid grid-cols-[1fr_auto_1fr] gap-x-3 gap-y-2 items-center">
+                  <h3 className="text-lg font-semibold text-emerald-400">
+                    {league.userRoster.owner} (You)
+                  </h3>
+                  <div />
+                  <h3 className="text-lg font-semibold text-red-400 text-right">
+                    {league.opponentRoster?.owner || 'Bye Week'}
+                  </h3>
+
+                  {getSlotRows(league).map(({ slot, userStarter, opponentStarter }, index) => (
+                    <Fragment key={`${slot}-${index}`}>
+                      <LineupSlotCard player={userStarter} />
+                      <div
+                        className="w-12 text-center text-xs font-bold text-slate-300 bg-slate-700 rounded px-1 py-1"
+                        title={getSlotPositions(slot).join(', ')}
+                      >
+                        {getSlotLabel(slot)}
+                      </div>
+                      {league.opponentRoster ? (
+                        <LineupSlotCard player={opponentStarter} alignRight />
+                      ) : (
+                        <div />
+                      )}
+                    </Fragment>
+                  ))}
+                </div>
 
-                  {/* Opponent's Lineup */}
+                {/* Bench, IR and taxi */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+                  <div>
+                    <ReserveList starters={filledSlots(league.userRoster.starters)} reserves={league.userRoster.reserves} />
+                  </div>
                   <div>
-                    <h3 className="text-lg font-semibold text-red-400 mb-3">
-                      {league.opponentRoster?.owner || 'Bye Week'}
-                    </h3>
                     {league.opponentRoster ? (
-                      <div className="space-y-2">
-                        {league.opponentRoster.starters.map((player, index) => (
-                          <div key={`${player.playerId}-${index}`} className="bg-slate-700/30 border border-slate-600/50 p-2 rounded">
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center gap-2">
-                                <img
-                                  src={player.position === 'DEF' || player.name.includes('Defense')
-                                    ? `https://sleepercdn.com/images/team_logos/nfl/${player.team.toLowerCase()}.png`
-                                    : `https://sleepercdn.com/content/nfl/players/${player.playerId}.jpg`
-                                  }
-                                  alt={player.name}
-                                  className="w-6 h-6 rounded-full object-cover bg-slate-600"
-                                  onError={(e) => {
-                                    (e.target as HTMLImageElement).style.display = 'none'
-                                  }}
-                                />
-                                <div className="text-sm">
-                                  {player.jerseyNumber && (
-                                    <span className="text-slate-300 font-medium">#{player.jerseyNumber} </span>
-                                  )}
-                                  <span className="text-white font-medium">{player.name}</span>
-                                </div>
-                              </div>
-                              <div className="text-xs text-slate-400 font-medium">
-                                {player.position} - {player.team}
-                              </div>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
+                      <ReserveList starters={filledSlots(league.opponentRoster.starters)} reserves={league.opponentRoster.reserves} />
                     ) : (
                       <div className="text-center py-8 text-slate-500">
                         Bye week - no opponent
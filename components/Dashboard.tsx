@@ -4,9 +4,14 @@ import { useState, useEffect } from 'react'
 import { User } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 import { storage } from '@/lib/storage'
-import { UserLeague } from '@/types'
+import { SleeperLeague, SleeperUser, UserLeague } from '@/types'
 import { fetchSleeperLeague } from '@/lib/api'
+import { describeApiError } from '@/lib/httpClient'
+import { useCurrentLineups } from '@/lib/useLeagueWeek'
 import SleeperUserSelector from './SleeperUserSelector'
+import SleeperLeagueImporter from './SleeperLeagueImporter'
+import LineupDoctor from './LineupDoctor'
+import StartSitOptimizer from './StartSitOptimizer'
 import Image from 'next/image'
 
 interface DashboardProps {
@@ -14,9 +19,10 @@ interface DashboardProps {
   onLogout: () => void
   onStartRedZoneSession: () => void
   onViewAllLeagues: () => void
+  onViewExposure: () => void
 }
 
-export default function Dashboard({ user, onLogout, onStartRedZoneSession, onViewAllLeagues }: DashboardProps) {
+export default function Dashboard({ user, onLogout, onStartRedZoneSession, onViewAllLeagues, onViewExposure }: DashboardProps) {
   const [leagues, setLeagues] = useState<UserLeague[]>([])
   const [newLeagueId, setNewLeagueId] = useState('')
   const [newLeagueNickname, setNewLeagueNickname] = useState('')
@@ -25,6 +31,9 @@ export default function Dashboard({ user, onLogout, onStartRedZoneSession, onVie
   const [pendingLeagueId, setPendingLeagueId] = useState<string | null>(null)
   const [editingLeagueId, setEditingLeagueId] = useState<number | null>(null)
   const [editNickname, setEditNickname] = useState('')
+  const [showImporter, setShowImporter] = useState(false)
+  // This week's lineups, loaded once for the lineup doctor and the start/sit optimizer
+  const currentLineups = useCurrentLineups(leagues)
 
   useEffect(() => {
     // Try to load leagues from cache first
@@ -102,12 +111,47 @@ export default function Dashboard({ user, onLogout, onStartRedZoneSession, onVie
       setMessage(`League "${displayLeagueName}" added successfully! You are: ${displayName}`)
       fetchLeagues()
     } catch (error: any) {
-      setMessage('Error adding league: ' + error.message)
+      setMessage('Error adding league: ' + describeApiError(error))
     } finally {
       setLoading(false)
     }
   }
 
+  // Bulk-add leagues found from a Sleeper username, as that Sleeper user.
+  // Errors are shown by the importer, which stays open so the import can be retried.
+  const importLeagues = async (sleeperLeagues: SleeperLeague[], sleeperUser: SleeperUser) => {
+    // Check against the database rather than the list on screen, which may be stale
+    const { data: existingLeagues, error: fetchError } = await supabase
+      .from('user_leagues')
+      .select('sleeper_league_id')
+      .eq('user_id', user.id)
+
+    if (fetchError) throw fetchError
+
+    const existingIds = new Set((existingLeagues || []).map(league => league.sleeper_league_id))
+    const newLeagues = sleeperLeagues.filter(league => !existingIds.has(league.league_id))
+    const skipped = sleeperLeagues.length - newLeagues.length
+
+    if (newLeagues.length > 0) {
+      const { error } = await supabase
+        .from('user_leagues')
+        .insert(newLeagues.map(league => ({
+          user_id: user.id,
+          sleeper_league_id: league.league_id,
+          sleeper_user_id: sleeperUser.user_id,
+          league_name: league.name || `League ${league.league_id}`,
+          custom_nickname: null,
+        })))
+
+      if (error) throw error
+    }
+
+    setShowImporter(false)
+    setMessage(`${newLeagues.length} ${newLeagues.length === 1 ? 'league' : 'leagues'} imported successfully! You are: ${sleeperUser.display_name}` +
+      (skipped > 0 ? ` (${skipped} already added)` : ''))
+    fetchLeagues()
+  }
+
   const handleUserSelectionCancel = () => {
     setPendingLeagueId(null)
     setMessage('')
@@ -221,9 +265,18 @@ export default function Dashboard({ user, onLogout, onStartRedZoneSession, onVie
                 {loading ? 'Adding...' : 'Add'}
               </button>
             </div>
-            <p className="text-xs text-slate-400">
-              Find League ID: Sleeper App → League → Settings → League ID
-            </p>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-slate-400">
+                Find League ID: Sleeper App → League → Settings → League ID
+              </p>
+              <button
+                type="button"
+                onClick={() => setShowImporter(true)}
+                className="text-xs text-blue-400 hover:text-blue-300"
+              >
+                Import all leagues from a Sleeper username
+              </button>
+            </div>
           </form>
         </div>
 
@@ -309,6 +362,26 @@ export default function Dashboard({ user, onLogout, onStartRedZoneSession, onVie
           )}
         </div>
 
+        {/* Lineup Doctor */}
+        {leagues.length > 0 && (
+          <LineupDoctor
+            lineups={currentLineups.lineups}
+            loading={currentLineups.loading}
+            error={currentLineups.error}
+            onRecheck={currentLineups.reload}
+          />
+        )}
+
+        {/* Start/Sit Suggestions */}
+        {leagues.length > 0 && (
+          <StartSitOptimizer
+            lineups={currentLineups.lineups}
+            loading={currentLineups.loading}
+            error={currentLineups.error}
+            onRerun={currentLineups.reload}
+          />
+        )}
+
         {/* Action Buttons */}
         {leagues.length > 0 && (
           <div className="mt-12 text-center space-y-6">
@@ -325,6 +398,12 @@ export default function Dashboard({ user, onLogout, onStartRedZoneSession, onVie
               >
                 View All Lineups
               </button>
+              <button
+                onClick={onViewExposure}
+                className="btn btn-secondary px-8 py-3 text-lg font-medium"
+              >
+                Player Exposure
+              </button>
             </div>
             <div className="space-y-2">
               <p className="text-sm text-slate-400">
@@ -333,6 +412,9 @@ export default function Dashboard({ user, onLogout, onStartRedZoneSession, onVie
               <p className="text-sm text-slate-400">
                 View All Lineups: See current lineups across all your leagues
               </p>
+              <p className="text-sm text-slate-400">
+                Player Exposure: See which players you start and face across leagues
+              </p>
             </div>
           </div>
         )}
@@ -348,6 +430,15 @@ export default function Dashboard({ user, onLogout, onStartRedZoneSession, onVie
           </div>
         )}
 
+        {/* League Import Modal */}
+        {showImporter && (
+          <SleeperLeagueImporter
+            existingLeagueIds={leagues.map(league => league.sleeper_league_id)}
+            onImport={importLeagues}
+            onCancel={() => setShowImporter(false)}
+          />
+        )}
+
         {/* User Selector Modal */}
         {pendingLeagueId && (
           <SleeperUserSelector
@@ -0,0 +1,173 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { User } from '@supabase/supabase-js'
+import { fetchSleeperPlayersByIds } from '@/lib/api'
+import { PlayerLineup } from '@/types'
+import { SleeperPlayerError } from '@/lib/players'
+import { buildPlayerLineups, getLineupPlayerIds } from '@/lib/lineups'
+import { buildExposureReport } from '@/lib/exposure'
+import { getWeekLabel } from '@/lib/weekResolution'
+import { useLeagueWeek } from '@/lib/useLeagueWeek'
+import PlayerErrorsNotice from './PlayerErrorsNotice'
+import LeagueStatusStrip from './LeagueStatusStrip'
+
+interface ExposureViewProps {
+  user: User
+  onBackToDashboard: () => void
+}
+
+const formatNet = (value: number, digits = 0) =>
+  `${value > 0 ? '+' : ''}${value.toFixed(digits)}`
+
+export default function ExposureView({ user, onBackToDashboard }: ExposureViewProps) {
+  const [lineups, setLineups] = useState<PlayerLineup[]>([])
+  const [playerErrors, setPlayerErrors] = useState<SleeperPlayerError[]>([])
+  const [hedgedOnly, setHedgedOnly] = useState(false)
+
+  const { week, fantasyWeek, leagueStates, loading, error, setError, retryLeague, refreshData } = useLeagueWeek(user, {
+    // Rebuild the combined lineup from the shared league data store
+    rebuild: async (leagues, week) => {
+      const players = await fetchSleeperPlayersByIds(getLineupPlayerIds(leagues, week))
+      return () => {
+        const { lineups, playerErrors } = buildPlayerLineups(leagues, week, players)
+        setLineups(lineups)
+        setPlayerErrors(playerErrors)
+      }
+    },
+    onWeekLoaded: (_scoreboard, fantasyWeek) => {
+      if (fantasyWeek === null) setLineups([])
+    }
+  })
+
+  const report = useMemo(() => buildExposureReport(lineups), [lineups])
+  const shownReport = hedgedOnly ? report.filter(exposure => exposure.isHedged) : report
+  const hedgedCount = report.filter(exposure => exposure.isHedged).length
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white">
+      {/* Header */}
+      <div className="bg-slate-800 border-b border-slate-700 p-4">
+        <div className="container mx-auto">
+          <div className="flex justify-between items-center">
+            <button
+              onClick={onBackToDashboard}
+              className="btn btn-secondary"
+            >
+              ← Back to Dashboard
+            </button>
+            <div className="text-center">
+              <h1 className="text-3xl font-bold">Player Exposure</h1>
+              <p className="text-sm text-slate-400 mt-1">{getWeekLabel(week.seasonType, week.week)}</p>
+            </div>
+            <button
+              onClick={() => refreshData()}
+              disabled={loading}
+              className="btn btn-primary"
+            >
+              {loading ? 'Loading...' : 'Refresh Data'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto p-4">
+        <LeagueStatusStrip states={leagueStates} onRetry={retryLeague} />
+        <PlayerErrorsNotice errors={playerErrors} />
+
+        {loading && report.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="text-2xl font-semibold text-slate-300 mb-4">Loading lineups...</div>
+            <div className="text-slate-400">Fetching data from all your leagues</div>
+          </div>
+        ) : fantasyWeek === null ? (
+          <div className="text-center py-20">
+            <div className="text-2xl font-semibold text-slate-300 mb-4">No fantasy matchups this week</div>
+            <div className="text-slate-400">Exposure is available during the NFL regular season</div>
+          </div>
+        ) : report.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="text-2xl font-semibold text-slate-300 mb-4">No players found</div>
+            <div className="text-slate-400">Make sure you have leagues configured and try refreshing</div>
+          </div>
+        ) : (
+          <div className="card p-4">
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-sm text-slate-400">
+                {report.length} players across your lineups · {hedgedCount} hedged
+              </p>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={hedgedOnly}
+                  onChange={(e) => setHedgedOnly(e.target.checked)}
+                />
+                Hedged only
+              </label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-400 border-b border-slate-700">
+                    <th className="py-2 pr-4 font-medium">Player</th>
+                    <th className="py-2 pr-4 font-medium text-center">Starting</th>
+                    <th className="py-2 pr-4 font-medium text-center">Facing</th>
+                    <th className="py-2 pr-4 font-medium text-center">Net</th>
+                    <th className="py-2 font-medium text-right">Net points</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownReport.map(exposure => (
+                    <tr key={exposure.playerId} className="border-b border-slate-800">
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold text-white">{exposure.name}</span>
+                          {exposure.isHedged && (
+                            <span className="px-1.5 py-0.5 rounded bg-amber-900/50 text-amber-300 text-xs">Hedged</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-slate-400">{exposure.position} · {exposure.team}</div>
+                      </td>
+                      <td className="py-2 pr-4 text-center text-emerald-400" title={exposure.myLeagues.join(', ')}>
+                        {exposure.myLeagues.length}
+                      </td>
+                      <td className="py-2 pr-4 text-center text-red-400" title={exposure.opponentLeagues.join(', ')}>
+                        {exposure.opponentLeagues.length}
+                      </td>
+                      <td className={`py-2 pr-4 text-center font-bold tabular-nums ${
+                        exposure.net > 0 ? 'text-emerald-400' : exposure.net < 0 ? 'text-red-400' : 'text-slate-400'
+                      }`}>
+                        {formatNet(exposure.net)}
+                      </td>
+                      <td className="py-2 text-right tabular-nums text-slate-300">
+                        {formatNet(exposure.netPoints, 1)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Error Toast */}
+      {error && (
+        <div className="fixed bottom-6 left-6 right-6 max-w-lg mx-auto bg-red-900/90 backdrop-blur-sm border border-red-700 text-red-100 p-4 rounded-lg shadow-lg">
+          <div className="flex items-start gap-3">
+            <div className="text-red-400 flex-shrink-0 mt-0.5">⚠</div>
+            <div>{error}</div>
+            <button
+              onClick={() => setError('')}
+              className="ml-auto text-xs opacity-75 hover:opacity-100"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
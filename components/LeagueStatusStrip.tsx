@@ -0,0 +1,57 @@
+'use client'
+
+import { LeagueLoadState, LeagueLoadStatus } from '@/lib/leagueLoading'
+
+interface LeagueStatusStripProps {
+  states: LeagueLoadState[]
+  onRetry: (leagueId: string) => void
+}
+
+const STATUS_STYLES: Record<LeagueLoadStatus, { dot: string, label: string }> = {
+  loading: { dot: 'bg-slate-400 animate-pulse', label: 'Loading' },
+  loaded: { dot: 'bg-emerald-500', label: 'Loaded' },
+  stale: { dot: 'bg-amber-400', label: 'Stale' },
+  failed: { dot: 'bg-red-500', label: 'Failed' }
+}
+
+export default function LeagueStatusStrip({ states, onRetry }: LeagueStatusStripProps) {
+  if (states.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-4">
+      {states.map(state => {
+        const style = STATUS_STYLES[state.status]
+        const canRetry = state.status === 'failed' || state.status === 'stale'
+
+        return (
+          <div
+            key={state.leagueId}
+            title={state.error || (state.updatedAt ? `Updated ${new Date(state.updatedAt).toLocaleTimeString()}` : undefined)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs border ${
+              state.status === 'failed'
+                ? 'bg-red-900/30 border-red-700/60 text-red-100'
+                : state.status === 'stale'
+                ? 'bg-amber-900/30 border-amber-700/60 text-amber-100'
+                : 'bg-slate-800 border-slate-700 text-slate-300'
+            }`}
+          >
+            <span className={`w-2 h-2 rounded-full ${style.dot}`}></span>
+            <span className="font-medium truncate max-w-40">{state.leagueName}</span>
+            <span className="opacity-75">{style.label}</span>
+            {state.error && state.status === 'failed' && (
+              <span className="opacity-75 truncate max-w-60">· {state.error}</span>
+            )}
+            {canRetry && (
+              <button
+                onClick={() => onRetry(state.leagueId)}
+                className="ml-1 font-semibold underline-offset-2 hover:underline"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+'use client'
+
+import { useMemo } from 'react'
+import { describeApiError } from '@/lib/httpClient'
+import { getLeagueName } from '@/lib/leagueLoading'
+import { LineupIssue, checkLineups } from '@/lib/lineupDoctor'
+import { CurrentLineups } from '@/lib/useLeagueWeek'
+import { getWeekLabel } from '@/lib/weekResolution'
+
+interface LineupDoctorProps {
+  // The dashboard's current-week load, shared with the start/sit optimizer
+  lineups: CurrentLineups | null
+  loading: boolean
+  error: string
+  onRecheck: () => void
+}
+
+const formatKickoff = (kickoff: string) =>
+  new Date(kickoff).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+
+const describeIssue = (issue: LineupIssue) => {
+  switch (issue.kind) {
+    case 'empty':
+      return `Empty ${issue.slot} slot`
+    case 'bye':
+      return `${issue.name} (${issue.team}) has no game this week`
+    case 'injury':
+      return `${issue.name} (${issue.team}) is ${issue.injuryStatus}`
+  }
+}
+
+// Checklist of starters to fix before kickoff across all the user's leagues
+export default function LineupDoctor({ lineups, loading, error, onRecheck }: LineupDoctorProps) {
+  const offseason = lineups?.fantasyWeek === null
+  const weekLabel = lineups ? getWeekLabel(lineups.scoreboard.season.type, lineups.scoreboard.week.number) : ''
+
+  const checkups = useMemo(() => lineups && lineups.fantasyWeek !== null
+    ? checkLineups(lineups.leagues, lineups.fantasyWeek, lineups.players, lineups.scoreboard.events)
+    : [], [lineups])
+
+  const failedLeagues = useMemo(() => (lineups?.results || []).flatMap(result => result.ok ? [] : [{
+    leagueId: result.league.sleeper_league_id,
+    leagueName: getLeagueName(result.league),
+    error: describeApiError(result.error)
+  }]), [lineups])
+
+  const issueCount = checkups.reduce((total, checkup) => total + checkup.issues.length, 0)
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Lineup Doctor</h2>
+          {weekLabel && (
+            <p className="text-xs text-slate-400 mt-1">
+              {weekLabel} · {issueCount === 0 ? 'No problems found' : `${issueCount} ${issueCount === 1 ? 'problem' : 'problems'} to fix`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onRecheck}
+          disabled={loading}
+          className="btn btn-secondary text-xs px-3 py-1.5"
+        >
+          {loading ? 'Checking...' : 'Re-check'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-300">{error}</p>
+      )}
+
+      {offseason ? (
+        <p className="text-sm text-slate-400">No fantasy matchups this week</p>
+      ) : (
+        <div className="space-y-4">
+          {checkups.map(checkup => (
+            <div key={checkup.leagueId}>
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="font-semibold text-white">{checkup.leagueName}</h3>
+                {checkup.kickoff && (
+                  <span className="text-xs text-slate-400">First kickoff {formatKickoff(checkup.kickoff)}</span>
+                )}
+              </div>
+              {checkup.issues.length === 0 ? (
+                <div className="text-sm text-emerald-400">✓ Lineup looks good</div>
+              ) : (
+                <ul className="space-y-1">
+                  {checkup.issues.map((issue, index) => (
+                    <li key={`${issue.kind}-${issue.playerId || index}`} className="flex items-center justify-between gap-3 bg-slate-700/40 px-3 py-2 rounded text-sm">
+                      <span className="flex items-center gap-2">
+                        <span className="text-amber-400">☐</span>
+                        <span className="text-slate-200">{describeIssue(issue)}</span>
+                      </span>
+                      {issue.kickoff && (
+                        <span className="text-xs text-slate-400 whitespace-nowrap">{formatKickoff(issue.kickoff)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+          {failedLeagues.map(league => (
+            <div key={league.leagueId} className="text-sm text-red-300">
+              {league.leagueName}: could not be checked ({league.error})
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
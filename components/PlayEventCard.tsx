@@ -0,0 +1,38 @@
+'use client'
+
+import { PlayEvent } from '@/types'
+import { PLAY_EVENT_LABELS, getPlayImpact } from '@/lib/playEvents'
+
+interface PlayEventCardProps {
+  event: PlayEvent
+}
+
+export default function PlayEventCard({ event }: PlayEventCardProps) {
+  const { helpedMe, helpedOpponent } = getPlayImpact(event)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="text-xs font-bold uppercase tracking-wide text-amber-300">
+          {PLAY_EVENT_LABELS[event.kind]} · {event.team}
+        </span>
+        <span className="text-xs text-slate-400">
+          Q{event.period} {event.clock}
+        </span>
+      </div>
+      <p className="text-sm text-white mb-2">{event.text}</p>
+      <div className="flex flex-wrap gap-1">
+        {helpedMe.map(leagueName => (
+          <span key={`me-${leagueName}`} className="bg-emerald-800/60 text-emerald-200 px-1.5 py-0.5 rounded text-xs font-medium">
+            + {leagueName}
+          </span>
+        ))}
+        {helpedOpponent.map(leagueName => (
+          <span key={`opp-${leagueName}`} className="bg-red-800/60 text-red-200 px-1.5 py-0.5 rounded text-xs font-medium">
+            − {leagueName}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+'use client'
+
+import { useState } from 'react'
+import { SleeperPlayerError } from '@/lib/players'
+
+interface PlayerErrorsNoticeProps {
+  errors: SleeperPlayerError[]
+}
+
+export default function PlayerErrorsNotice({ errors }: PlayerErrorsNoticeProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (errors.length === 0) return null
+
+  return (
+    <div className="bg-amber-900/40 border border-amber-700/60 text-amber-100 p-3 rounded-lg mb-4 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-amber-400">⚠</span>
+          <span>
+            {errors.length} {errors.length === 1 ? 'starter' : 'starters'} could not be loaded from the Sleeper player database
+          </span>
+        </div>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs opacity-75 hover:opacity-100"
+        >
+          {expanded ? 'Hide' : 'Details'}
+        </button>
+      </div>
+      {expanded && (
+        <ul className="mt-2 space-y-1 text-xs text-amber-200/90">
+          {errors.map((error, index) => (
+            <li key={`${error.playerId}-${index}`}>{error.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
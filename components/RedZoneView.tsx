@@ -1,36 +1,91 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo, memo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef, memo } from 'react'
 import { User } from '@supabase/supabase-js'
-import { supabase } from '@/lib/supabase'
 import {
   fetchFilteredCurrentWeekGames,
-  fetchSleeperNFLState,
-  fetchSleeperLeagueRosters,
-  fetchSleeperLeagueUsers,
+  fetchGameSummary,
   fetchSleeperMatchups,
-  fetchSleeperPlayers,
-  findUserRoster,
-  findOpponentRoster
+  fetchSleeperPlayersByIds,
+  fetchSleeperProjections
 } from '@/lib/api'
-import { ESPNGame, UserLeague, PlayerLineup, SleeperRoster, SleeperUser, SleeperMatchup } from '@/types'
-import { storage, GameConfig } from '@/lib/storage'
+import {
+  ESPNGame,
+  UserLeague,
+  PlayerLineup,
+  SleeperProjectionStats,
+  LeagueMatchup,
+  PlayEvent,
+  ESPNSummary,
+  SleeperPlayers,
+  ReserveSlot
+} from '@/types'
+import { storage, GameConfig, GameSortMode, STORAGE_KEYS } from '@/lib/storage'
+import { projectLeagueMatchup } from '@/lib/projections'
+import { createPoller, hasLiveGames, mergeById, POLL_INTERVALS } from '@/lib/polling'
+import { getWinProbability } from '@/lib/winProbability'
+import { getLeverageByGame } from '@/lib/leverage'
+import { detectPlayEvents } from '@/lib/playEvents'
+import { getGameSituation, getPossession } from '@/lib/situation'
+import { normalizeTeam } from '@/lib/teams'
+import { SleeperPlayerError, parseSleeperPlayers } from '@/lib/players'
 import GameConfigModal from './GameConfigModal'
+import { PreferencesSync, SyncedPreferences, createPreferencesSync, mergeGameConfig, stampGameConfig } from '@/lib/preferencesSync'
+import {
+  SEASON_TYPES,
+  SEASON_TYPE_LABELS,
+  WeekSelection,
+  getFantasyRoundLabel,
+  getWeekKey,
+  getWeekLabel
+} from '@/lib/weekResolution'
+import { buildLeagueMatchup, getLeagueWeekData, updateLeagueMatchups } from '@/lib/leagueData'
+import { useLeagueWeek } from '@/lib/useLeagueWeek'
+import { buildPlayerLineups, getLineupPlayerIds, getOutscoringBench } from '@/lib/lineups'
+import WinProbabilityBar from './WinProbabilityBar'
+import PlayEventCard from './PlayEventCard'
+import PlayerErrorsNotice from './PlayerErrorsNotice'
+import LeagueStatusStrip from './LeagueStatusStrip'
+import WeekNavigator from './WeekNavigator'
 
 interface RedZoneViewProps {
   user: User
   onBackToDashboard: () => void
 }
 
+// Keep the feed bounded during long sessions
+const MAX_PLAY_EVENTS = 100
+const MAX_PLAY_ALERTS = 3
+const PLAY_ALERT_DURATION = 8000
+
+// Stable identity for a lineup entry, used to diff polled lineups against state
+const getLineupKey = (player: PlayerLineup) => `${player.playerId}-${player.isOpponent}-${player.team}-${player.slot || 'starter'}`
+
+// Sum a player's live points across every league they appear in
+const getTotalPoints = (player: PlayerLineup) =>
+  (player.leaguePoints || []).reduce((total, points) => total + points, 0)
+
+// Total live points for a group of players
+const sumPoints = (players: PlayerLineup[]) =>
+  players.reduce((total, player) => total + getTotalPoints(player), 0)
+
+// Short badges for my non-starting players
+const SLOT_LABELS: Record<ReserveSlot, string> = { bench: 'BN', reserve: 'IR', taxi: 'TX' }
+
+// Head-to-head matchups for every league with data for the week
+const buildLeagueMatchups = (leagues: UserLeague[], week: number): LeagueMatchup[] => {
+  return leagues.flatMap(league => {
+    const data = getLeagueWeekData(league.sleeper_league_id, week)
+    const matchup = data && buildLeagueMatchup(league, data)
+    return matchup ? [matchup] : []
+  })
+}
+
 export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProps) {
   const [games, setGames] = useState<ESPNGame[]>([])
   const [selectedGameIndex, setSelectedGameIndex] = useState<number | null>(null)
-  const [userLeagues, setUserLeagues] = useState<UserLeague[]>([])
   const [playerLineups, setPlayerLineups] = useState<PlayerLineup[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState('')
-  const [currentWeek, setCurrentWeek] = useState(1)
-  const [sleeperPlayers, setSleeperPlayers] = useState<Record<string, any>>({})
+  const [sleeperPlayers, setSleeperPlayers] = useState<SleeperPlayers>({})
   const [gameConfig, setGameConfig] = useState<GameConfig[]>([])
   const [filteredGames, setFilteredGames] = useState<ESPNGame[]>([])
   const [showGameConfig, setShowGameConfig] = useState(false)
@@ -38,205 +93,308 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
   const [hiddenLeagues, setHiddenLeagues] = useState<Set<string>>(new Set())
   const [showLeagueFilter, setShowLeagueFilter] = useState(false)
   const [showAllLeagues, setShowAllLeagues] = useState(false)
-  const [allLeaguesData, setAllLeaguesData] = useState<Array<{
-    leagueId: string
-    leagueName: string
-    userRoster: { rosterId: number, points: number, projectedPoints: number, owner: string }
-    opponentRoster: { rosterId: number, points: number, projectedPoints: number, owner: string }
-    matchupId: number
-  }>>([])
-  const [allLeaguesLoading, setAllLeaguesLoading] = useState(false)
-  
-
-  const fetchUserLeagues = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('user_leagues')
-        .select('*')
-        .eq('user_id', user.id)
-
-      if (error) throw error
-      setUserLeagues(data || [])
-    } catch (error: any) {
-      setError('Error fetching leagues: ' + error.message)
-    }
+  const [leagueMatchups, setLeagueMatchups] = useState<LeagueMatchup[]>([])
+  const [projections, setProjections] = useState<Record<string, SleeperProjectionStats>>({})
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null)
+  // Cached games and lineups shown on load are past their TTL until a refresh completes
+  const [isCacheStale, setIsCacheStale] = useState(false)
+  const [playerErrors, setPlayerErrors] = useState<SleeperPlayerError[]>([])
+  const [gameSort, setGameSort] = useState<GameSortMode>('custom')
+  const selectedGameIdRef = useRef<string | null>(null)
+  const [playEvents, setPlayEvents] = useState<PlayEvent[]>([])
+  const [playAlerts, setPlayAlerts] = useState<PlayEvent[]>([])
+  const [showPlayFeed, setShowPlayFeed] = useState(false)
+  const [showReserves, setShowReserves] = useState(false)
+  const seenPlayEventsRef = useRef(new Set<string>())
+  const primedGamesRef = useRef(new Set<string>())
+
+  // Latest values for the background pollers and preferences sync, which outlive individual renders
+  const gamesRef = useRef<ESPNGame[]>([])
+  const sleeperPlayersRef = useRef<SleeperPlayers>({})
+  const playerLineupsRef = useRef<PlayerLineup[]>([])
+  const leagueMatchupsRef = useRef<LeagueMatchup[]>([])
+  gamesRef.current = games
+  sleeperPlayersRef.current = sleeperPlayers
+  playerLineupsRef.current = playerLineups
+  leagueMatchupsRef.current = leagueMatchups
+
+  // Clear lineups and matchups, e.g. before another week's leagues are rebuilt
+  const clearLineups = () => {
+    playerLineupsRef.current = []
+    leagueMatchupsRef.current = []
+    setPlayerLineups([])
+    setLeagueMatchups([])
   }
 
-  const fetchAllLineups = useCallback(async (week: number, players: Record<string, any>) => {
-    const allLineups: PlayerLineup[] = []
+  // Active preferences sync for the current week, if any
+  const preferencesSyncRef = useRef<PreferencesSync | null>(null)
 
+  const fetchProjections = useCallback(async (week: number, season: number) => {
     try {
-      for (const league of userLeagues) {
-        const leagueId = league.sleeper_league_id
-
-        // Fetch league data in parallel
-        const [rosters, users, matchups] = await Promise.all([
-          fetchSleeperLeagueRosters(leagueId),
-          fetchSleeperLeagueUsers(leagueId),
-          fetchSleeperMatchups(leagueId, week)
-        ])
-
-        // Find user's roster using stored Sleeper user ID
-        const sleeperUserId = league.sleeper_user_id
-        if (!sleeperUserId) {
-          console.warn(`No Sleeper user ID stored for league ${leagueId}. Please re-add this league with user selection.`)
-          continue
-        }
+      // Pregame projections are shared by every league for the week
+      setProjections(await fetchSleeperProjections(season, week))
+    } catch (error) {
+      console.warn('Could not load projections:', error)
+    }
+  }, [])
 
-        const userRoster = findUserRoster(rosters, sleeperUserId)
-        if (!userRoster) {
-          console.warn(`User roster not found in league ${leagueId} for Sleeper user ${sleeperUserId}`)
-          continue
+  const {
+    userLeagues,
+    week,
+    setWeek,
+    fantasyWeek,
+    browsedWeek,
+    leagueStates,
+    leaguesLoading,
+    loading,
+    error,
+    setError,
+    rebuildFromStore,
+    retryLeague,
+    refreshData,
+    changeWeek
+  } = useLeagueWeek(user, {
+    // Rebuild lineups and league matchups from the shared league data store,
+    // fetching any players not loaded yet
+    rebuild: async (leagues, week) => {
+      // Only the players in play are fetched from the server-side player database
+      const lineupOptions = { includeReserves: showReserves }
+      const playerIds = getLineupPlayerIds(leagues, week, lineupOptions)
+      const newPlayers = await fetchSleeperPlayersByIds(playerIds.filter(id => !sleeperPlayersRef.current[id]))
+
+      return () => {
+        const players = Object.keys(newPlayers).length > 0
+          ? { ...sleeperPlayersRef.current, ...newPlayers }
+          : sleeperPlayersRef.current
+        if (players !== sleeperPlayersRef.current) {
+          sleeperPlayersRef.current = players
+          setSleeperPlayers(players)
+          if (!browsedWeek) storage.setCompactSleeperPlayers(players, playerIds)
         }
 
-        // Find user's matchup to see if it has different starters
-        const userMatchup = matchups.find(m => m.roster_id === userRoster.roster_id)
-
-        // Find opponent's roster
-        const opponentRoster = findOpponentRoster(rosters, matchups, userRoster.roster_id)
-
-        // Always use matchup starters when available (more current than roster)
-        const actualUserStarters = userMatchup?.starters || userRoster.starters
-
-        // Add user's starters to lineup
-        if (actualUserStarters) {
-          for (const playerId of actualUserStarters) {
-            if (playerId && players[playerId]) {
-              const player = players[playerId]
-              const playerData = {
-                playerId,
-                name: `${player.first_name} ${player.last_name}`,
-                position: player.position || 'N/A',
-                team: player.team || 'FA',
-                jerseyNumber: player.number?.toString() || '',
-                leagueId: league.sleeper_league_id,
-                leagueName: league.custom_nickname || league.league_name || 'League',
-                isOpponent: false
-              }
-
-              // Check if player already exists in lineup
-              const existingPlayerIndex = allLineups.findIndex(p =>
-                p.playerId === playerId && p.isOpponent === false && p.team === playerData.team
-              )
+        const { lineups, playerErrors } = buildPlayerLineups(leagues, week, players, lineupOptions)
+        setPlayerErrors(playerErrors)
 
-              if (existingPlayerIndex >= 0) {
-                // Add league to existing player
-                allLineups[existingPlayerIndex].leagueIds.push(playerData.leagueId)
-                allLineups[existingPlayerIndex].leagueNames.push(playerData.leagueName)
-              } else {
-                // Add new player
-                allLineups.push({
-                  ...playerData,
-                  leagueIds: [playerData.leagueId],
-                  leagueNames: [playerData.leagueName]
-                })
-              }
-            }
-          }
+        // Merged against the refs rather than in state updaters, which must not write storage
+        const mergedLineups = mergeById(playerLineupsRef.current, lineups, getLineupKey)
+        if (mergedLineups !== playerLineupsRef.current) {
+          playerLineupsRef.current = mergedLineups
+          setPlayerLineups(mergedLineups)
+          if (!browsedWeek) storage.setPlayerLineups(mergedLineups)
         }
 
-        // Find opponent's matchup for more accurate starters
-        const opponentMatchup = userMatchup ? matchups.find(m =>
-          m.matchup_id === userMatchup.matchup_id && m.roster_id !== userRoster.roster_id
-        ) : null
-
-        // Always use opponent matchup starters when available (more current than roster)
-        const actualOpponentStarters = opponentMatchup?.starters || opponentRoster?.starters
-
-        // Add opponent's starters to lineup
-        if (actualOpponentStarters) {
-          for (const playerId of actualOpponentStarters) {
-            if (playerId && players[playerId]) {
-              const player = players[playerId]
-              const playerData = {
-                playerId,
-                name: `${player.first_name} ${player.last_name}`,
-                position: player.position || 'N/A',
-                team: player.team || 'FA',
-                jerseyNumber: player.number?.toString() || '',
-                leagueId: league.sleeper_league_id,
-                leagueName: league.custom_nickname || league.league_name || 'League',
-                isOpponent: true
-              }
-
-              // Check if player already exists in lineup
-              const existingPlayerIndex = allLineups.findIndex(p =>
-                p.playerId === playerId && p.isOpponent === true && p.team === playerData.team
-              )
-
-              if (existingPlayerIndex >= 0) {
-                // Add league to existing player
-                allLineups[existingPlayerIndex].leagueIds.push(playerData.leagueId)
-                allLineups[existingPlayerIndex].leagueNames.push(playerData.leagueName)
-              } else {
-                // Add new player
-                allLineups.push({
-                  ...playerData,
-                  leagueIds: [playerData.leagueId],
-                  leagueNames: [playerData.leagueName]
-                })
-              }
-            }
-          }
+        const mergedMatchups = mergeById(leagueMatchupsRef.current, buildLeagueMatchups(leagues, week), matchup => matchup.leagueId)
+        if (mergedMatchups !== leagueMatchupsRef.current) {
+          leagueMatchupsRef.current = mergedMatchups
+          setLeagueMatchups(mergedMatchups)
+          if (!browsedWeek) storage.set(STORAGE_KEYS.ALL_LEAGUES_MATCHUPS, mergedMatchups)
         }
+
+        setLastUpdated(Date.now())
+      }
+    },
+    onWeekLoaded: async (scoreboard, fantasyWeek, selection) => {
+      setGames(scoreboard.events)
+
+      // Only the current week is cached
+      if (!selection) {
+        storage.setGames(scoreboard.events)
+        storage.setCurrentWeek(scoreboard.week.number)
       }
 
-      setPlayerLineups(allLineups)
+      if (fantasyWeek === null) {
+        clearLineups()
+        if (!selection) storage.setPlayerLineups([])
+      } else {
+        await fetchProjections(fantasyWeek, scoreboard.season.year)
+      }
+      if (!selection) setIsCacheStale(false)
+    },
+    // Cached data is shown first and revalidated below when it is stale
+    autoLoad: false
+  })
+  const { seasonType, week: currentWeek } = week
+
+  // Live projected totals: points scored plus each starter's pregame projection
+  // scaled by how much of their NFL game is left
+  const allLeaguesData = useMemo(() =>
+    leagueMatchups.map(matchup => projectLeagueMatchup(matchup, games, sleeperPlayers, projections)),
+    [leagueMatchups, games, sleeperPlayers, projections]
+  )
 
-      // Cache the lineups
-      storage.setPlayerLineups(allLineups)
+  // Browse to another week; lineups and matchups are rebuilt from the shared
+  // store once the week's leagues load
+  const browseWeek = useCallback((selection: WeekSelection | null) => {
+    clearLineups()
+    changeWeek(selection)
+  }, [changeWeek])
+
+  // Load cached data on mount
+  useEffect(() => {
+    // Large cached datasets are read from IndexedDB before they can be used
+    storage.hydrate().then(loadCachedData)
+  }, [])
+
+  // Sync game configuration and hidden leagues for this week with other devices
+  const season = games[0]?.season.year
+  useEffect(() => {
+    if (!season) return
+
+    const sync = createPreferencesSync({
+      userId: user.id,
+      season,
+      week: getWeekKey(seasonType, currentWeek),
+      getLocal: (): SyncedPreferences => {
+        // Only this week's games belong in this week's synced preferences
+        const gameIds = new Set(gamesRef.current.map(game => game.id))
+        return {
+          gameConfig: storage.getGameConfig().filter(config => gameIds.has(config.gameId)),
+          hiddenLeagues: storage.getHiddenLeagues(),
+          hiddenLeaguesUpdatedAt: storage.getHiddenLeaguesUpdatedAt()
+        }
+      },
+      onMerged: (preferences) => {
+        // The synced config only covers this week's games; fold it into the full
+        // local config so settings for other weeks' games are kept
+        const gameConfig = mergeGameConfig(storage.getGameConfig(), preferences.gameConfig)
+        setGameConfig(gameConfig)
+        storage.setGameConfig(gameConfig)
+        setHiddenLeagues(new Set(preferences.hiddenLeagues))
+        storage.setHiddenLeagues(preferences.hiddenLeagues, preferences.hiddenLeaguesUpdatedAt)
+      }
+    })
 
-      // Create compact player cache with only needed players
-      const allPlayerIds = Array.from(new Set(allLineups.map(p => p.playerId)))
-      storage.setCompactSleeperPlayers(players, allPlayerIds)
-    } catch (error: any) {
-      setError('Error fetching lineups: ' + error.message)
+    preferencesSyncRef.current = sync
+    sync.start()
+
+    return () => {
+      sync.stop()
+      preferencesSyncRef.current = null
     }
-  }, [userLeagues])
+  }, [user.id, season, seasonType, currentWeek])
 
-  const refreshData = useCallback(async () => {
-    if (userLeagues.length === 0) {
-      setError('No leagues configured. Please add leagues first.')
-      return
+  // Render league data another view already loaded for this week, and rebuild when
+  // reserves are toggled
+  useEffect(() => {
+    rebuildFromStore()
+  }, [userLeagues, fantasyWeek, showReserves, rebuildFromStore])
+
+  // Stale cached data stays on screen while it is revalidated in the background
+  useEffect(() => {
+    if (isCacheStale && userLeagues.length > 0) {
+      refreshData(false)
     }
+  }, [isCacheStale, userLeagues.length])
 
-    setLoading(true)
-    setError('')
+  // Background polling once the session has data: games and matchups poll quickly
+  // while any game is live, back off while nothing is live and pause while hidden.
+  // Browsed weeks are not polled.
+  const hasGames = games.length > 0
+  useEffect(() => {
+    if (userLeagues.length === 0 || !hasGames || browsedWeek) return
+
+    const gamesPoller = createPoller({
+      fetch: fetchFilteredCurrentWeekGames,
+      onData: (filteredGamesData) => {
+        setGames(prev => mergeById(prev, filteredGamesData.events, game => game.id))
+        storage.setGames(filteredGamesData.events)
+        setLastUpdated(Date.now())
+      },
+      onError: (error) => console.warn('Live games poll failed:', error),
+      liveInterval: POLL_INTERVALS.LIVE_GAMES,
+      isLive: () => hasLiveGames(gamesRef.current)
+    })
 
-    try {
-      // Fetch filtered current week games and players data in parallel
-      const [filteredGamesData, playersData] = await Promise.all([
-        fetchFilteredCurrentWeekGames(),
-        fetchSleeperPlayers()
-      ])
-
-      setGames(filteredGamesData.events)
-      setCurrentWeek(filteredGamesData.week.number)
-      setSleeperPlayers(playersData)
-
-      // Cache the data
-      storage.setGames(filteredGamesData.events)
-      storage.setCurrentWeek(filteredGamesData.week.number)
-      // Note: Sleeper players will be cached as compact data in fetchAllLineups
-
-      // Fetch lineups for all user leagues
-      await fetchAllLineups(filteredGamesData.week.number, playersData)
-
-    } catch (error: any) {
-      setError('Error fetching data: ' + error.message)
-    } finally {
-      setLoading(false)
+    // Fantasy matchups only change while fantasy leagues are playing
+    const matchupsPoller = fantasyWeek === null ? null : createPoller({
+      fetch: async () => {
+        // Only leagues already in the shared store can be updated from matchups alone
+        const leagues = userLeagues.filter(league => getLeagueWeekData(league.sleeper_league_id, fantasyWeek))
+        const matchups = await Promise.all(
+          leagues.map(league => fetchSleeperMatchups(league.sleeper_league_id, fantasyWeek))
+        )
+        return new Map(leagues.map((league, index) => [league.sleeper_league_id, matchups[index]]))
+      },
+      // Changed matchups notify the store subscription, which rebuilds lineups
+      onData: (matchupsByLeague) => updateLeagueMatchups(fantasyWeek, matchupsByLeague),
+      onError: (error) => console.warn('Live matchups poll failed:', error),
+      liveInterval: POLL_INTERVALS.LIVE_MATCHUPS,
+      isLive: () => hasLiveGames(gamesRef.current)
+    })
+
+    gamesPoller.start()
+    matchupsPoller?.start()
+
+    return () => {
+      gamesPoller.stop()
+      matchupsPoller?.stop()
     }
-  }, [userLeagues.length, fetchAllLineups])
+  }, [userLeagues, fantasyWeek, hasGames, browsedWeek])
 
-  // Load cached data and user leagues on mount
+  // Play-by-play for live games: scoring plays, turnovers and big plays involving lineup players
+  const hasLineups = playerLineups.some(player => !player.slot)
   useEffect(() => {
-    fetchUserLeagues()
-    loadCachedData()
-  }, [])
+    if (!hasGames || !hasLineups) return
+
+    const playsPoller = createPoller({
+      fetch: async () => {
+        const liveGames = gamesRef.current.filter(game => game.competitions[0]?.status?.type?.state === 'in')
+        const results = await Promise.allSettled(liveGames.map(game => fetchGameSummary(game.id)))
+        return liveGames
+          .map((game, index) => ({ game, result: results[index] }))
+          .filter(({ result }) => result.status === 'fulfilled')
+          .map(({ game, result }) => ({ game, summary: (result as PromiseFulfilledResult<ESPNSummary>).value }))
+      },
+      onData: (summaries) => {
+        const newEvents: PlayEvent[] = []
+        const newAlerts: PlayEvent[] = []
+
+        for (const { game, summary } of summaries) {
+          // The first summary of a game only back-fills the feed; alerts are for new plays
+          const isPrimed = primedGamesRef.current.has(game.id)
+          primedGamesRef.current.add(game.id)
+
+          for (const event of detectPlayEvents(summary, game, playerLineupsRef.current.filter(player => !player.slot))) {
+            if (seenPlayEventsRef.current.has(event.id)) continue
+            seenPlayEventsRef.current.add(event.id)
+            newEvents.push(event)
+            if (isPrimed) newAlerts.push(event)
+          }
+        }
+
+        if (newEvents.length > 0) {
+          setPlayEvents(prev => [...newEvents.reverse(), ...prev].slice(0, MAX_PLAY_EVENTS))
+        }
+        if (newAlerts.length > 0) {
+          setPlayAlerts(prev => [...newAlerts.reverse(), ...prev].slice(0, MAX_PLAY_ALERTS))
+        }
+      },
+      onError: (error) => console.warn('Play-by-play poll failed:', error),
+      liveInterval: POLL_INTERVALS.LIVE_PLAYS,
+      isLive: () => hasLiveGames(gamesRef.current)
+    })
+
+    playsPoller.start()
+    playsPoller.pollNow()
+
+    return () => playsPoller.stop()
+  }, [hasGames, hasLineups])
+
+  // Dismiss play alerts oldest first
+  useEffect(() => {
+    if (playAlerts.length === 0) return
+    const timeoutId = setTimeout(() => setPlayAlerts(prev => prev.slice(0, -1)), PLAY_ALERT_DURATION)
+    return () => clearTimeout(timeoutId)
+  }, [playAlerts])
 
   // Removed redundant useEffect - now handled by memoized filteredGamesMemo
 
+  const handleGameClick = useCallback((index: number) => {
+    selectedGameIdRef.current = filteredGames[index]?.id || null
+    setSelectedGameIndex(index)
+    storage.setSelectedGame(index)
+  }, [filteredGames])
+
   // Keyboard navigation for game selection only
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -246,21 +404,19 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
       if (key >= '1' && key <= '9') {
         const gameIndex = parseInt(key) - 1
         if (gameIndex < filteredGames.length) {
-          setSelectedGameIndex(gameIndex)
-          storage.setSelectedGame(gameIndex)
+          handleGameClick(gameIndex)
         }
       } else if (key.toLowerCase() >= 'a' && key.toLowerCase() <= 'z') {
         const gameIndex = 9 + (key.toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0))
         if (gameIndex < filteredGames.length) {
-          setSelectedGameIndex(gameIndex)
-          storage.setSelectedGame(gameIndex)
+          handleGameClick(gameIndex)
         }
       }
     }
 
     window.addEventListener('keydown', handleKeyPress)
     return () => window.removeEventListener('keydown', handleKeyPress)
-  }, [filteredGames.length])
+  }, [filteredGames.length, handleGameClick])
 
   // Close league filter dropdown when clicking outside
   useEffect(() => {
@@ -276,25 +432,28 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
 
   const loadCachedData = () => {
     // Load cached data
-    const cachedGames = storage.getGames()
+    const cachedGames = storage.getWithMeta<ESPNGame[]>(STORAGE_KEYS.GAMES)
     const cachedPlayers = storage.getSleeperPlayers()
-    const cachedLineups = storage.getPlayerLineups()
+    const cachedLineups = storage.getWithMeta<PlayerLineup[]>(STORAGE_KEYS.PLAYER_LINEUPS)
     const cachedWeek = storage.getCurrentWeek()
     const cachedConfig = storage.getGameConfig()
     const cachedSelectedGame = storage.getSelectedGame()
     const cachedHiddenLeagues = storage.getHiddenLeagues()
+    const cachedGameSort = storage.getGameSort()
 
     if (cachedGames) {
-      setGames(cachedGames)
+      setGames(cachedGames.data)
+      setLastUpdated(cachedGames.timestamp)
     }
     if (cachedPlayers) {
-      setSleeperPlayers(cachedPlayers)
+      setSleeperPlayers(parseSleeperPlayers(cachedPlayers).players)
     }
     if (cachedLineups) {
-      setPlayerLineups(cachedLineups)
+      setPlayerLineups(cachedLineups.data)
     }
+    setIsCacheStale(!!(cachedGames?.isStale || cachedLineups?.isStale))
     if (cachedWeek) {
-      setCurrentWeek(cachedWeek)
+      setWeek({ seasonType: cachedGames?.data[0]?.season.type || SEASON_TYPES.REGULAR, week: cachedWeek })
     }
     if (cachedConfig) {
       setGameConfig(cachedConfig)
@@ -305,20 +464,26 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
     if (cachedHiddenLeagues) {
       setHiddenLeagues(new Set(cachedHiddenLeagues))
     }
+    setGameSort(cachedGameSort)
 
     // Clear expired cache
     storage.clearExpired()
   }
 
+  // How much each game can still swing my matchups across all leagues
+  const leverageByGame = useMemo(() =>
+    getLeverageByGame(games, allLeaguesData),
+    [games, allLeaguesData]
+  )
+
   // Memoized game filtering to avoid recalculation on every render
   const filteredGamesMemo = useMemo(() => {
     if (games.length === 0) return []
-    if (gameConfig.length === 0) return games
 
     // Apply configuration
     const configMap = new Map(gameConfig.map(c => [c.gameId, c]))
 
-    return games
+    const visibleGames = games
       .map(game => ({
         game,
         config: configMap.get(game.id) || { gameId: game.id, isVisible: true, customOrder: games.indexOf(game) }
@@ -326,21 +491,47 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
       .filter(({ config }) => config.isVisible)
       .sort((a, b) => a.config.customOrder - b.config.customOrder)
       .map(({ game }) => game)
-  }, [games, gameConfig])
+
+    // Leverage sort puts the game that matters most right now on the first hotkey
+    if (gameSort === 'leverage') {
+      return visibleGames.sort((a, b) => (leverageByGame.get(b.id) || 0) - (leverageByGame.get(a.id) || 0))
+    }
+
+    return visibleGames
+  }, [games, gameConfig, gameSort, leverageByGame])
 
   // Update filteredGames state when memoized value changes
   useEffect(() => {
     setFilteredGames(filteredGamesMemo)
   }, [filteredGamesMemo])
 
-  const handleGameConfigSave = useCallback((newConfig: GameConfig[]) => {
-    setGameConfig(newConfig)
-    storage.setGameConfig(newConfig)
-  }, [])
+  // Keep the selected game selected when the grid is re-ordered (leverage changes while live)
+  useEffect(() => {
+    if (selectedGameIndex === null) return
 
-  const handleGameClick = useCallback((index: number) => {
-    setSelectedGameIndex(index)
-    storage.setSelectedGame(index)
+    if (!selectedGameIdRef.current) {
+      selectedGameIdRef.current = filteredGames[selectedGameIndex]?.id || null
+      return
+    }
+
+    const newIndex = filteredGames.findIndex(game => game.id === selectedGameIdRef.current)
+    if (newIndex >= 0 && newIndex !== selectedGameIndex) {
+      setSelectedGameIndex(newIndex)
+      storage.setSelectedGame(newIndex)
+    }
+  }, [filteredGames])
+
+  const toggleGameSort = useCallback(() => {
+    const next = gameSort === 'leverage' ? 'custom' : 'leverage'
+    setGameSort(next)
+    storage.setGameSort(next)
+  }, [gameSort])
+
+  const handleGameConfigSave = useCallback((newConfig: GameConfig[]) => {
+    const stampedConfig = stampGameConfig(storage.getGameConfig(), newConfig)
+    setGameConfig(stampedConfig)
+    storage.setGameConfig(stampedConfig)
+    preferencesSyncRef.current?.push()
   }, [])
 
   const getKeyboardLabel = (index: number): string => {
@@ -366,99 +557,23 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
   }, [playerLineups])
 
   const toggleLeagueVisibility = useCallback((leagueId: string) => {
-    setHiddenLeagues(prev => {
-      const newSet = new Set(prev)
-      if (newSet.has(leagueId)) {
-        newSet.delete(leagueId)
-      } else {
-        newSet.add(leagueId)
-      }
-
-      // Persist to storage
-      const leagueArray = Array.from(newSet)
-      storage.setHiddenLeagues(leagueArray)
-
-      return newSet
-    })
-  }, [])
-
-  const fetchAllLeaguesMatchups = useCallback(async (week: number) => {
-    if (userLeagues.length === 0) return
-
-    setAllLeaguesLoading(true)
-    const allLeaguesMatchups = []
-
-    try {
-      for (const league of userLeagues) {
-        const leagueId = league.sleeper_league_id
-        const sleeperUserId = league.sleeper_user_id
-
-        if (!sleeperUserId) continue
-
-        // Fetch league data
-        const [rosters, users, matchups] = await Promise.all([
-          fetchSleeperLeagueRosters(leagueId),
-          fetchSleeperLeagueUsers(leagueId),
-          fetchSleeperMatchups(leagueId, week)
-        ])
-
-        // Find user's roster
-        const userRoster = findUserRoster(rosters, sleeperUserId)
-        if (!userRoster) continue
-
-        // Find user's matchup
-        const userMatchup = matchups.find(m => m.roster_id === userRoster.roster_id)
-        if (!userMatchup) continue
-
-        // Find opponent's matchup and roster
-        const opponentMatchup = matchups.find(m =>
-          m.matchup_id === userMatchup.matchup_id && m.roster_id !== userRoster.roster_id
-        )
-        const opponentRoster = opponentMatchup ? rosters.find(r => r.roster_id === opponentMatchup.roster_id) : null
-
-        // Find user names
-        const userOwner = users.find(u => u.user_id === userRoster.owner_id)?.display_name || 'You'
-        const opponentOwner = opponentRoster ?
-          users.find(u => u.user_id === opponentRoster.owner_id)?.display_name || 'Opponent' : 'Bye Week'
-
-        // Calculate projected points (simple estimation based on current scoring rate)
-        const userProjectedPoints = userMatchup.points || 0
-        const opponentProjectedPoints = opponentMatchup?.points || 0
-
-        allLeaguesMatchups.push({
-          leagueId: league.sleeper_league_id,
-          leagueName: league.custom_nickname || league.league_name || 'League',
-          userRoster: {
-            rosterId: userRoster.roster_id,
-            points: userMatchup.points || 0,
-            projectedPoints: userProjectedPoints,
-            owner: userOwner
-          },
-          opponentRoster: {
-            rosterId: opponentRoster?.roster_id || 0,
-            points: opponentMatchup?.points || 0,
-            projectedPoints: opponentProjectedPoints,
-            owner: opponentOwner
-          },
-          matchupId: userMatchup.matchup_id
-        })
-      }
-
-      setAllLeaguesData(allLeaguesMatchups)
-      // Cache the data
-      storage.set('redzone_all_leagues_matchups', allLeaguesMatchups)
-
-    } catch (error: any) {
-      setError('Error fetching all leagues data: ' + error.message)
-    } finally {
-      setAllLeaguesLoading(false)
+    const newSet = new Set(hiddenLeagues)
+    if (newSet.has(leagueId)) {
+      newSet.delete(leagueId)
+    } else {
+      newSet.add(leagueId)
     }
-  }, [userLeagues])
+    setHiddenLeagues(newSet)
+
+    // Persist to storage and other devices
+    storage.setHiddenLeagues(Array.from(newSet))
+    preferencesSyncRef.current?.push()
+  }, [hiddenLeagues])
 
   // Memoized function to get players for a specific game - optimized for performance
   const getPlayersForGame = useMemo(() => {
     // Create a map of team abbreviations to players for faster lookup
-    const teamPlayerMap = new Map<string, { myPlayers: PlayerLineup[], opponents: PlayerLineup[] }>()
+    const teamPlayerMap = new Map<string, { myPlayers: PlayerLineup[], opponents: PlayerLineup[], reserves: PlayerLineup[] }>()
 
     // Pre-filter visible players once instead of per game
     const visiblePlayers = playerLineups.filter(player =>
@@ -475,16 +590,19 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
       const filteredPlayer = {
         ...player,
         leagueIds: visibleLeagueIndices.map(({ leagueId }) => leagueId),
-        leagueNames: visibleLeagueIndices.map(({ index }) => player.leagueNames[index])
+        leagueNames: visibleLeagueIndices.map(({ index }) => player.leagueNames[index]),
+        leaguePoints: visibleLeagueIndices.map(({ index }) => player.leaguePoints?.[index] || 0)
       }
 
       if (!teamPlayerMap.has(player.team)) {
-        teamPlayerMap.set(player.team, { myPlayers: [], opponents: [] })
+        teamPlayerMap.set(player.team, { myPlayers: [], opponents: [], reserves: [] })
       }
 
       const teamData = teamPlayerMap.get(player.team)!
       if (player.isOpponent) {
         teamData.opponents.push(filteredPlayer)
+      } else if (player.slot) {
+        teamData.reserves.push(filteredPlayer)
       } else {
         teamData.myPlayers.push(filteredPlayer)
       }
@@ -492,21 +610,24 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
 
     // Return optimized lookup function
     return (game: ESPNGame) => {
-      if (!game.competitions[0]) return { homeTeam: { myPlayers: [], opponents: [] }, awayTeam: { myPlayers: [], opponents: [] } }
+      if (!game.competitions[0]) return { homeTeam: { myPlayers: [], opponents: [], reserves: [] }, awayTeam: { myPlayers: [], opponents: [], reserves: [] } }
 
       const homeTeam = game.competitions[0].competitors.find(c => c.homeAway === 'home')
       const awayTeam = game.competitions[0].competitors.find(c => c.homeAway === 'away')
 
-      const homeTeamAbbr = homeTeam?.team.abbreviation || ''
-      const awayTeamAbbr = awayTeam?.team.abbreviation || ''
+      const homeTeamAbbr = normalizeTeam(homeTeam?.team.abbreviation || '')
+      const awayTeamAbbr = normalizeTeam(awayTeam?.team.abbreviation || '')
 
       return {
-        homeTeam: teamPlayerMap.get(homeTeamAbbr) || { myPlayers: [], opponents: [] },
-        awayTeam: teamPlayerMap.get(awayTeamAbbr) || { myPlayers: [], opponents: [] }
+        homeTeam: teamPlayerMap.get(homeTeamAbbr) || { myPlayers: [], opponents: [], reserves: [] },
+        awayTeam: teamPlayerMap.get(awayTeamAbbr) || { myPlayers: [], opponents: [], reserves: [] }
       }
     }
   }, [playerLineups, hiddenLeagues])
 
+  // My bench players outscoring a starter at the same position in one of their leagues
+  const outscoringBench = useMemo(() => getOutscoringBench(playerLineups), [playerLineups])
+
   // Memoized selected game and players calculation to avoid unnecessary recalculations
   // IMPORTANT: Must be before any conditional returns to maintain hook order
   const selectedGame = useMemo(() =>
@@ -519,6 +640,20 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
     [selectedGame, getPlayersForGame]
   )
 
+  // Week shown in the week navigator
+  const shownWeek: WeekSelection | null = browsedWeek || (games[0]
+    ? { season: games[0].season.year, seasonType, week: currentWeek }
+    : null)
+
+  const weekNavigator = shownWeek && (
+    <WeekNavigator
+      selection={shownWeek}
+      isCurrent={!browsedWeek}
+      disabled={loading}
+      onChange={browseWeek}
+    />
+  )
+
   // Early return for empty state - after all hooks are called
   if (filteredGames.length === 0 && !loading) {
     return (
@@ -532,9 +667,12 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
               >
                 ← Back to Dashboard
               </button>
-              <h1 className="text-3xl font-bold">RedZone View</h1>
+              <div className="text-center">
+                <h1 className="text-3xl font-bold">RedZone View</h1>
+                {weekNavigator}
+              </div>
               <button
-                onClick={refreshData}
+                onClick={() => refreshData()}
                 disabled={loading}
                 className="btn btn-primary"
               >
@@ -579,14 +717,26 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
               ← Back to Dashboard
             </button>
             <div className="text-center">
-              <h1 className="text-3xl font-bold">Week {currentWeek} Games</h1>
+              <h1 className="text-3xl font-bold">{getWeekLabel(seasonType, currentWeek)} Games</h1>
+              {weekNavigator}
               <p className="text-sm text-slate-400 mt-1">
                 Hotkeys: 1-9/A-Z = Select games
               </p>
+              {lastUpdated && (
+                <p className="text-xs text-slate-500 mt-1 flex items-center justify-center gap-1.5">
+                  {hasLiveGames(games) && (
+                    <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+                  )}
+                  {hasLiveGames(games) ? 'Live' : 'Auto-refresh'} · updated {new Date(lastUpdated).toLocaleTimeString()}
+                  {isCacheStale && (
+                    <span className="text-amber-400">· cached, {loading ? 'refreshing…' : 'may be out of date'}</span>
+                  )}
+                </p>
+              )}
             </div>
             <div className="flex gap-3">
               <button
-                onClick={refreshData}
+                onClick={() => refreshData()}
                 disabled={loading}
                 className="btn btn-primary"
               >
@@ -635,6 +785,32 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
                   </div>
                 )}
               </div>
+              <button
+                onClick={toggleGameSort}
+                className={`btn ${gameSort === 'leverage' ? 'btn-primary' : 'btn-secondary'}`}
+                title="Order games by how much they can still swing your matchups"
+              >
+                {gameSort === 'leverage' ? 'Sort: Leverage' : 'Sort: Custom'}
+              </button>
+              <button
+                onClick={() => setShowPlayFeed(!showPlayFeed)}
+                className={`btn ${showPlayFeed ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Play Feed{playEvents.length > 0 ? ` (${playEvents.length})` : ''}
+              </button>
+              <button
+                onClick={() => setShowReserves(!showReserves)}
+                className={`btn ${showReserves ? 'btn-primary' : 'btn-secondary'}`}
+                title="Also show your bench, IR and taxi players"
+              >
+                Bench
+              </button>
+              <button
+                onClick={() => setShowAllLeagues(!showAllLeagues)}
+                className={`btn ${showAllLeagues ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                All Matchups
+              </button>
               <button
                 onClick={() => setShowGameConfig(true)}
                 className="btn btn-secondary"
@@ -650,16 +826,26 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
               const homeTeam = game.competitions[0]?.competitors.find(c => c.homeAway === 'home')
               const awayTeam = game.competitions[0]?.competitors.find(c => c.homeAway === 'away')
               const isSelected = selectedGameIndex === index
+              const gamePlayers = getPlayersForGame(game)
+              const myGamePoints = sumPoints([...gamePlayers.awayTeam.myPlayers, ...gamePlayers.homeTeam.myPlayers])
+              const opponentGamePoints = sumPoints([...gamePlayers.awayTeam.opponents, ...gamePlayers.homeTeam.opponents])
+              const situation = getGameSituation(game)
+              const possession = getPossession(game, [
+                ...gamePlayers.awayTeam.myPlayers, ...gamePlayers.awayTeam.opponents,
+                ...gamePlayers.homeTeam.myPlayers, ...gamePlayers.homeTeam.opponents
+              ])
               
               return (
                 <button
                   key={game.id}
-                  onClick={() => setSelectedGameIndex(index)}
+                  onClick={() => handleGameClick(index)}
                   className={`px-1 py-3 rounded-lg text-sm font-medium transition-all border min-w-[110px] ${
                     isSelected 
                       ? 'bg-blue-600 text-white border-blue-500 shadow-lg shadow-blue-500/25' 
-                      : 'bg-slate-700 hover:bg-slate-600 text-slate-300 border-slate-600'
-                  }`}
+                      : situation?.isRedZone
+                        ? 'bg-red-900/60 hover:bg-red-900/80 text-red-100 border-red-500 shadow-lg shadow-red-500/25'
+                        : 'bg-slate-700 hover:bg-slate-600 text-slate-300 border-slate-600'
+                  } ${isSelected && situation?.isRedZone ? 'ring-2 ring-red-500' : ''}`}
                 >
                   <div className="text-xs font-bold text-center mb-1 opacity-75">{getKeyboardLabel(index)}</div>
                   <div className="flex items-center justify-center gap-1.5 text-xs">
@@ -677,6 +863,23 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
                       )}
                     </div>
                   </div>
+                  {possession && (
+                    <div className={`text-xs text-center mt-1 ${situation?.isRedZone ? 'font-bold text-red-300' : 'opacity-75'}`}>
+                      {situation?.isRedZone ? 'RZ · ' : ''}{possession.offenseTeam} {possession.situation.shortDownDistanceText || ''}
+                    </div>
+                  )}
+                  {gameSort === 'leverage' && (leverageByGame.get(game.id) || 0) > 0 && (
+                    <div className="text-xs text-center text-amber-300 tabular-nums" title="Leverage">
+                      ⚡ {(leverageByGame.get(game.id) || 0).toFixed(1)}
+                    </div>
+                  )}
+                  {(myGamePoints > 0 || opponentGamePoints > 0) && (
+                    <div className="flex items-center justify-center gap-2 mt-1 text-xs tabular-nums">
+                      <span className="text-emerald-300">{myGamePoints.toFixed(1)}</span>
+                      <span className="opacity-50">/</span>
+                      <span className="text-red-300">{opponentGamePoints.toFixed(1)}</span>
+                    </div>
+                  )}
                 </button>
               )
             })}
@@ -686,6 +889,80 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
 
       {/* Main Content */}
       <div className="container mx-auto p-2 md:p-4">
+        <LeagueStatusStrip states={leagueStates} onRetry={retryLeague} />
+        <PlayerErrorsNotice errors={playerErrors} />
+        {fantasyWeek === null && (
+          <p className="text-sm text-slate-400 mb-4">
+            No fantasy matchups during the {SEASON_TYPE_LABELS[seasonType]?.toLowerCase() || 'off-season'}; showing NFL games only.
+          </p>
+        )}
+
+        {/* Play Feed */}
+        {showPlayFeed && (
+          <div className="card p-4 mb-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-white">Play Feed</h2>
+              <span className="text-xs text-slate-400">Touchdowns, field goals, turnovers and big plays</span>
+            </div>
+            {playEvents.length === 0 ? (
+              <p className="text-slate-500 text-center py-4 text-sm">No plays involving your players yet</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {playEvents.map(event => (
+                  <div key={event.id} className="bg-slate-700/30 border border-slate-600/50 p-3 rounded">
+                    <PlayEventCard event={event} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* All Leagues Matchups */}
+        {showAllLeagues && (
+          <div className="card p-4 mb-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-white">All Matchups</h2>
+              <span className="text-xs text-slate-400">Points (projected)</span>
+            </div>
+            {leaguesLoading && allLeaguesData.length === 0 ? (
+              <p className="text-slate-400 text-center py-4 text-sm">Loading matchups...</p>
+            ) : allLeaguesData.length === 0 ? (
+              <p className="text-slate-500 text-center py-4 text-sm">No matchups loaded - refresh data to load them</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {allLeaguesData.map(league => (
+                  <div key={league.leagueId} className="bg-slate-700/30 border border-slate-600/50 p-3 rounded">
+                    <div className="text-sm font-semibold text-white truncate mb-2">
+                      {league.leagueName}
+                      {league.round && (
+                        <span className="ml-2 text-xs font-normal text-amber-300">{getFantasyRoundLabel(league.round)}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-emerald-400 truncate max-w-[40%]">{league.userRoster.owner}</span>
+                      <span className="text-red-400 truncate max-w-[40%]">{league.opponentRoster.owner}</span>
+                    </div>
+                    <div className="flex items-center justify-between tabular-nums">
+                      <div>
+                        <span className="text-lg font-bold text-white">{league.userRoster.points.toFixed(1)}</span>
+                        <span className="text-xs text-slate-400"> ({league.userRoster.projectedPoints.toFixed(1)})</span>
+                      </div>
+                      <div className="text-right">
+                        <span className="text-lg font-bold text-white">{league.opponentRoster.points.toFixed(1)}</span>
+                        <span className="text-xs text-slate-400"> ({league.opponentRoster.projectedPoints.toFixed(1)})</span>
+                      </div>
+                    </div>
+                    <div className="mt-2">
+                      <WinProbabilityBar winProbability={getWinProbability(league)} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {selectedGame && selectedGamePlayers ? (
           <div>
             {/* Game Header */}
@@ -712,6 +989,11 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
                       <div className="flex flex-col items-center px-6 min-w-[160px]">
                         <div className="text-xs text-slate-400 text-center space-y-0.5">
                           <div>{new Date(selectedGame.date).toLocaleTimeString()}</div>
+                          <div className="text-sm font-semibold tabular-nums">
+                            <span className="text-emerald-400">{sumPoints([...selectedGamePlayers.awayTeam.myPlayers, ...selectedGamePlayers.homeTeam.myPlayers]).toFixed(1)}</span>
+                            <span className="text-slate-500"> vs </span>
+                            <span className="text-red-400">{sumPoints([...selectedGamePlayers.awayTeam.opponents, ...selectedGamePlayers.homeTeam.opponents]).toFixed(1)}</span>
+                          </div>
                           {venue && <div className="truncate max-w-[140px]" title={venue}>{venue}</div>}
                           {weather && (
                             <div className={`${
@@ -744,6 +1026,50 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
               </div>
             </div>
 
+            {/* Current Possession */}
+            {(() => {
+              const possession = getPossession(selectedGame, [
+                ...selectedGamePlayers.awayTeam.myPlayers, ...selectedGamePlayers.awayTeam.opponents,
+                ...selectedGamePlayers.homeTeam.myPlayers, ...selectedGamePlayers.homeTeam.opponents
+              ])
+              if (!possession) return null
+              return (
+                <div className={`card p-3 mb-4 max-w-4xl mx-auto ${possession.situation.isRedZone ? 'border-red-500 bg-red-900/30' : ''}`}>
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-sm font-semibold text-white">
+                      {possession.situation.isRedZone && (
+                        <span className="bg-red-600 text-white px-1.5 py-0.5 rounded text-xs font-bold mr-2">RED ZONE</span>
+                      )}
+                      {possession.offenseTeam} ball · {possession.situation.downDistanceText || possession.situation.possessionText}
+                    </div>
+                    <div className="text-xs text-slate-400">On the field</div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div>
+                      <div className="text-xs text-emerald-400 font-semibold mb-1">My Players</div>
+                      {possession.myPlayers.length === 0 ? (
+                        <div className="text-xs text-slate-500">None</div>
+                      ) : possession.myPlayers.map(player => (
+                        <div key={`${player.playerId}-field-mine`} className="text-white">
+                          {player.name} <span className="text-xs text-slate-400">{player.position} · {player.team}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div>
+                      <div className="text-xs text-red-400 font-semibold mb-1">Against Me</div>
+                      {possession.opponentPlayers.length === 0 ? (
+                        <div className="text-xs text-slate-500">None</div>
+                      ) : possession.opponentPlayers.map(player => (
+                        <div key={`${player.playerId}-field-opp`} className="text-white">
+                          {player.name} <span className="text-xs text-slate-400">{player.position} · {player.team}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )
+            })()}
+
             {/* Responsive Layout - 4 columns on desktop, 2 on tablet, 1 on mobile */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               {/* Away Team - My Players */}
@@ -751,12 +1077,12 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
                 <h3 className="text-base font-semibold text-emerald-400 mb-4 border-b border-slate-700 pb-2">
                   {selectedGame.competitions[0]?.competitors.find(c => c.homeAway === 'away')?.team.abbreviation} - My Players
                 </h3>
-                {selectedGamePlayers.awayTeam.myPlayers.length === 0 ? (
+                {selectedGamePlayers.awayTeam.myPlayers.length === 0 && selectedGamePlayers.awayTeam.reserves.length === 0 ? (
                   <p className="text-slate-500 text-center py-4 text-sm">No players</p>
                 ) : (
                   <div className="space-y-1">
-                    {selectedGamePlayers.awayTeam.myPlayers.map(player => (
-                      <div key={`${player.playerId}-away-mine`} className="bg-slate-700/30 border border-slate-600/50 p-2 rounded hover:bg-slate-700/50 transition-colors">
+                    {[...selectedGamePlayers.awayTeam.myPlayers, ...selectedGamePlayers.awayTeam.reserves].map(player => (
+                      <div key={`${player.playerId}-away-mine-${player.slot || 'starter'}`} className={`bg-slate-700/30 border border-slate-600/50 p-2 rounded hover:bg-slate-700/50 transition-colors ${player.slot ? 'opacity-70' : ''}`}>
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
                             <img
@@ -777,13 +1103,26 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
                               {player.name.length > 15 ? player.name.split(' ').pop() || player.name : player.name}
                             </div>
                           </div>
-                          <div className="text-xs text-slate-400 font-medium">{player.position}</div>
+                          <div className="text-right">
+                            <div className="text-sm font-bold text-white tabular-nums">{getTotalPoints(player).toFixed(1)}</div>
+                            <div className="text-xs text-slate-400 font-medium">
+                              {player.slot && (
+                                <span className="bg-slate-600 text-slate-200 px-1 rounded mr-1">{SLOT_LABELS[player.slot]}</span>
+                              )}
+                              {player.position}
+                            </div>
+                          </div>
                         </div>
                         <div className="flex gap-1 mt-1">
                           {player.leagueNames.map((leagueName, index) => (
-                            <div key={index} className="bg-blue-800/60 text-blue-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-20">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''}</div>
+                            <div key={index} className="bg-blue-800/60 text-blue-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-28">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''} {(player.leaguePoints?.[index] || 0).toFixed(1)}</div>
                           ))}
                         </div>
+                        {player.slot === 'bench' && outscoringBench.get(player.playerId)?.map(({ leagueName, starter }) => (
+                          <div key={`${leagueName}-${starter.playerId}`} className="text-xs text-amber-300 mt-1">
+                            Outscoring starter {starter.name} ({starter.points.toFixed(1)}) in {leagueName}
+                          </div>
+                        ))}
                       </div>
                     ))}
                   </div>
@@ -821,11 +1160,14 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
 {player.name.length > 15 ? player.name.split(' ').pop() || player.name : player.name}
                             </div>
                           </div>
-                          <div className="text-xs text-slate-400 font-medium">{player.position}</div>
+                          <div className="text-right">
+                            <div className="text-sm font-bold text-white tabular-nums">{getTotalPoints(player).toFixed(1)}</div>
+                            <div className="text-xs text-slate-400 font-medium">{player.position}</div>
+                          </div>
                         </div>
                         <div className="flex gap-1 mt-1">
                           {player.leagueNames.map((leagueName, index) => (
-                            <div key={index} className="bg-red-800/60 text-red-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-20">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''}</div>
+                            <div key={index} className="bg-red-800/60 text-red-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-28">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''} {(player.leaguePoints?.[index] || 0).toFixed(1)}</div>
                           ))}
                         </div>
                       </div>
@@ -839,12 +1181,12 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
                 <h3 className="text-base font-semibold text-emerald-400 mb-4 border-b border-slate-700 pb-2">
                   {selectedGame.competitions[0]?.competitors.find(c => c.homeAway === 'home')?.team.abbreviation} - My Players
                 </h3>
-                {selectedGamePlayers.homeTeam.myPlayers.length === 0 ? (
+                {selectedGamePlayers.homeTeam.myPlayers.length === 0 && selectedGamePlayers.homeTeam.reserves.length === 0 ? (
                   <p className="text-slate-500 text-center py-4 text-sm">No players</p>
                 ) : (
                   <div className="space-y-1">
-                    {selectedGamePlayers.homeTeam.myPlayers.map(player => (
-                      <div key={`${player.playerId}-home-mine`} className="bg-slate-700/30 border border-slate-600/50 p-2 rounded hover:bg-slate-700/50 transition-colors">
+                    {[...selectedGamePlayers.homeTeam.myPlayers, ...selectedGamePlayers.homeTeam.reserves].map(player => (
+                      <div key={`${player.playerId}-home-mine-${player.slot || 'starter'}`} className={`bg-slate-700/30 border border-slate-600/50 p-2 rounded hover:bg-slate-700/50 transition-colors ${player.slot ? 'opacity-70' : ''}`}>
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
                             <img
@@ -865,13 +1207,26 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
 {player.name.length > 15 ? player.name.split(' ').pop() || player.name : player.name}
                             </div>
                           </div>
-                          <div className="text-xs text-slate-400 font-medium">{player.position}</div>
+                          <div className="text-right">
+                            <div className="text-sm font-bold text-white tabular-nums">{getTotalPoints(player).toFixed(1)}</div>
+                            <div className="text-xs text-slate-400 font-medium">
+                              {player.slot && (
+                                <span className="bg-slate-600 text-slate-200 px-1 rounded mr-1">{SLOT_LABELS[player.slot]}</span>
+                              )}
+                              {player.position}
+                            </div>
+                          </div>
                         </div>
                         <div className="flex gap-1 mt-1">
                           {player.leagueNames.map((leagueName, index) => (
-                            <div key={index} className="bg-blue-800/60 text-blue-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-20">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''}</div>
+                            <div key={index} className="bg-blue-800/60 text-blue-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-28">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''} {(player.leaguePoints?.[index] || 0).toFixed(1)}</div>
                           ))}
                         </div>
+                        {player.slot === 'bench' && outscoringBench.get(player.playerId)?.map(({ leagueName, starter }) => (
+                          <div key={`${leagueName}-${starter.playerId}`} className="text-xs text-amber-300 mt-1">
+                            Outscoring starter {starter.name} ({starter.points.toFixed(1)}) in {leagueName}
+                          </div>
+                        ))}
                       </div>
                     ))}
                   </div>
@@ -909,11 +1264,14 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
 {player.name.length > 15 ? player.name.split(' ').pop() || player.name : player.name}
                             </div>
                           </div>
-                          <div className="text-xs text-slate-400 font-medium">{player.position}</div>
+                          <div className="text-right">
+                            <div className="text-sm font-bold text-white tabular-nums">{getTotalPoints(player).toFixed(1)}</div>
+                            <div className="text-xs text-slate-400 font-medium">{player.position}</div>
+                          </div>
                         </div>
                         <div className="flex gap-1 mt-1">
                           {player.leagueNames.map((leagueName, index) => (
-                            <div key={index} className="bg-red-800/60 text-red-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-20">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''}</div>
+                            <div key={index} className="bg-red-800/60 text-red-200 px-1.5 py-0.5 rounded text-xs font-medium truncate max-w-28">{leagueName.substring(0, 8)}{leagueName.length > 8 ? '...' : ''} {(player.leaguePoints?.[index] || 0).toFixed(1)}</div>
                           ))}
                         </div>
                       </div>
@@ -958,6 +1316,27 @@ export default function RedZoneView({ user, onBackToDashboard }: RedZoneViewProp
         </div>
       )}
 
+      {/* Play Alerts */}
+      {playAlerts.length > 0 && (
+        <div className="fixed top-6 right-6 w-96 max-w-[calc(100vw-3rem)] space-y-2 z-40">
+          {playAlerts.map(event => (
+            <div key={event.id} className="bg-slate-800/95 backdrop-blur-sm border border-amber-500/50 p-3 rounded-lg shadow-lg">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <PlayEventCard event={event} />
+                </div>
+                <button
+                  onClick={() => setPlayAlerts(prev => prev.filter(alert => alert.id !== event.id))}
+                  className="text-xs opacity-75 hover:opacity-100"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Game Configuration Modal */}
       {showGameConfig && (
         <GameConfigModal
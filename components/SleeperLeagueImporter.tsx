@@ -0,0 +1,170 @@
+'use client'
+
+import { useState } from 'react'
+import { fetchSleeperNFLState, fetchSleeperUser, fetchSleeperUserLeagues } from '@/lib/api'
+import { describeApiError } from '@/lib/httpClient'
+import { SleeperLeague, SleeperUser } from '@/types'
+
+interface SleeperLeagueImporterProps {
+  // Sleeper league IDs already added, which cannot be imported again
+  existingLeagueIds: string[]
+  onImport: (leagues: SleeperLeague[], sleeperUser: SleeperUser) => Promise<void>
+  onCancel: () => void
+}
+
+export default function SleeperLeagueImporter({ existingLeagueIds, onImport, onCancel }: SleeperLeagueImporterProps) {
+  const [username, setUsername] = useState('')
+  const [sleeperUser, setSleeperUser] = useState<SleeperUser | null>(null)
+  const [season, setSeason] = useState('')
+  const [leagues, setLeagues] = useState<SleeperLeague[]>([])
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [error, setError] = useState('')
+
+  const existing = new Set(existingLeagueIds)
+
+  // Resolve the username, then list the user's NFL leagues for the current season
+  const findLeagues = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!username.trim()) return
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const user = await fetchSleeperUser(username.trim())
+      if (!user) {
+        setError(`No Sleeper user named "${username.trim()}"`)
+        return
+      }
+
+      const state = await fetchSleeperNFLState()
+      const userLeagues = await fetchSleeperUserLeagues(user.user_id, state.season)
+
+      setSleeperUser(user)
+      setSeason(state.season)
+      setLeagues(userLeagues)
+      setSelectedIds(new Set(userLeagues
+        .map(league => league.league_id)
+        .filter(leagueId => !existing.has(leagueId))))
+    } catch (error: any) {
+      setError('Error finding leagues: ' + describeApiError(error))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleLeague = (leagueId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(leagueId)) {
+        next.delete(leagueId)
+      } else {
+        next.add(leagueId)
+      }
+      return next
+    })
+  }
+
+  const importSelected = async () => {
+    if (!sleeperUser || selectedIds.size === 0) return
+
+    setImporting(true)
+    setError('')
+    try {
+      await onImport(leagues.filter(league => selectedIds.has(league.league_id)), sleeperUser)
+    } catch (error: any) {
+      // Supabase errors are plain objects with a message
+      setError('Error importing leagues: ' + (error?.message || describeApiError(error)))
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="card max-w-md w-full mx-4 max-h-[32rem] overflow-y-auto p-8">
+        <h3 className="text-2xl font-semibold text-white mb-3">Import from Sleeper</h3>
+        <p className="text-slate-400 mb-6 text-sm">
+          Enter your Sleeper username to add all your NFL leagues at once
+        </p>
+
+        <form onSubmit={findLeagues} className="flex gap-3 mb-6">
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Sleeper username"
+            className="input flex-1"
+            autoFocus
+            required
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="btn btn-primary px-4"
+          >
+            {loading ? 'Finding...' : 'Find'}
+          </button>
+        </form>
+
+        {error && (
+          <p className="text-red-300 text-sm mb-6">{error}</p>
+        )}
+
+        {sleeperUser && (
+          <>
+            <p className="text-sm text-slate-400 mb-3">
+              {leagues.length} {leagues.length === 1 ? 'league' : 'leagues'} for {sleeperUser.display_name} in {season}
+            </p>
+            <div className="space-y-2 mb-6">
+              {leagues.map(league => {
+                const alreadyAdded = existing.has(league.league_id)
+                return (
+                  <label
+                    key={league.league_id}
+                    className={`flex items-center gap-3 bg-slate-700/50 border border-slate-600 p-3 rounded-lg ${
+                      alreadyAdded ? 'opacity-50' : 'cursor-pointer hover:bg-slate-700'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={alreadyAdded || selectedIds.has(league.league_id)}
+                      disabled={alreadyAdded}
+                      onChange={() => toggleLeague(league.league_id)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="font-semibold text-white truncate">{league.name}</div>
+                      <div className="text-xs text-slate-400">
+                        {alreadyAdded ? 'Already added' : `${league.total_rosters} teams · ID: ${league.league_id}`}
+                      </div>
+                    </div>
+                  </label>
+                )
+              })}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3">
+          {sleeperUser && (
+            <button
+              onClick={importSelected}
+              disabled={importing || selectedIds.size === 0}
+              className="btn btn-primary flex-1"
+            >
+              {importing ? 'Importing...' : `Import ${selectedIds.size} ${selectedIds.size === 1 ? 'League' : 'Leagues'}`}
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="btn btn-secondary flex-1"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { fetchSleeperLeagueUsers } from '@/lib/api'
+import { describeApiError } from '@/lib/httpClient'
 import { SleeperUser } from '@/types'
 
 interface SleeperUserSelectorProps {
@@ -24,7 +25,7 @@ export default function SleeperUserSelector({ leagueId, onUserSelect, onCancel }
       const userData = await fetchSleeperLeagueUsers(leagueId)
       setUsers(userData)
     } catch (error: any) {
-      setError('Error fetching league users: ' + error.message)
+      setError('Error fetching league users: ' + describeApiError(error))
     } finally {
       setLoading(false)
     }
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { fetchSleeperProjections } from '@/lib/api'
+import { SleeperProjectionStats } from '@/types'
+import { describeApiError } from '@/lib/httpClient'
+import { optimizeLineups } from '@/lib/lineupOptimizer'
+import { CurrentLineups } from '@/lib/useLeagueWeek'
+import { getWeekLabel } from '@/lib/weekResolution'
+
+interface StartSitOptimizerProps {
+  // The dashboard's current-week load, shared with the lineup doctor
+  lineups: CurrentLineups | null
+  loading: boolean
+  error: string
+  onRerun: () => void
+}
+
+// Suggested start/sit swaps per league, from projections and game locks
+export default function StartSitOptimizer({ lineups, loading, error, onRerun }: StartSitOptimizerProps) {
+  // null until the week's projections are loaded
+  const [projections, setProjections] = useState<Record<string, SleeperProjectionStats> | null>(null)
+  const [projectionsError, setProjectionsError] = useState('')
+  const offseason = lineups?.fantasyWeek === null
+  const weekLabel = lineups ? getWeekLabel(lineups.scoreboard.season.type, lineups.scoreboard.week.number) : ''
+
+  // Projections are fetched again with every lineup load, so a re-run picks up new ones
+  useEffect(() => {
+    if (!lineups || lineups.fantasyWeek === null) return
+
+    let cancelled = false
+    setProjections(null)
+    setProjectionsError('')
+    fetchSleeperProjections(lineups.scoreboard.season.year, lineups.fantasyWeek)
+      .then(projections => {
+        if (!cancelled) setProjections(projections)
+      })
+      .catch(error => {
+        if (!cancelled) setProjectionsError('Error optimizing lineups: ' + describeApiError(error))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [lineups])
+
+  // Leagues that fail to load are left out; the lineup doctor reports them
+  const suggestions = useMemo(() => lineups && lineups.fantasyWeek !== null && projections
+    ? optimizeLineups(lineups.leagues, lineups.fantasyWeek, lineups.players, projections, lineups.scoreboard.events)
+    : [], [lineups, projections])
+
+  const optimizing = loading || (!!lineups && lineups.fantasyWeek !== null && !projections && !projectionsError)
+  const shownError = error || projectionsError
+
+  const leaguesWithSwaps = suggestions.filter(suggestion => suggestion.swaps.length > 0)
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Start/Sit Suggestions</h2>
+          {weekLabel && (
+            <p className="text-xs text-slate-400 mt-1">
+              {weekLabel} · Players whose games have kicked off are locked
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onRerun}
+          disabled={optimizing}
+          className="btn btn-secondary text-xs px-3 py-1.5"
+        >
+          {optimizing ? 'Optimizing...' : 'Re-run'}
+        </button>
+      </div>
+
+      {shownError && (
+        <p className="text-sm text-red-300">{shownError}</p>
+      )}
+
+      {offseason ? (
+        <p className="text-sm text-slate-400">No fantasy matchups this week</p>
+      ) : suggestions.length > 0 && leaguesWithSwaps.length === 0 ? (
+        <p className="text-sm text-emerald-400">✓ Every lineup is already optimal</p>
+      ) : (
+        <div className="space-y-4">
+          {leaguesWithSwaps.map(suggestion => (
+            <div key={suggestion.leagueId}>
+              <div className="flex items-center justify-between mb-1">
+                <h3 className="font-semibold text-white">{suggestion.leagueName}</h3>
+                <span className="text-xs text-emerald-400 tabular-nums">+{suggestion.projectedGain.toFixed(1)} proj</span>
+              </div>
+              <ul className="space-y-1">
+                {suggestion.swaps.map(swap => (
+                  <li key={swap.start.playerId} className="flex items-center justify-between gap-3 bg-slate-700/40 px-3 py-2 rounded text-sm">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className="w-12 text-center text-xs font-bold text-slate-300 bg-slate-700 rounded px-1 py-0.5">{swap.slot}</span>
+                      <span className="text-emerald-300">Start {swap.start.name}</span>
+                      <span className="text-xs text-slate-400">({swap.start.projectedPoints.toFixed(1)})</span>
+                      {swap.bench ? (
+                        <>
+                          <span className="text-red-300">for {swap.bench.name}</span>
+                          <span className="text-xs text-slate-400">({swap.bench.projectedPoints.toFixed(1)})</span>
+                        </>
+                      ) : (
+                        <span className="text-slate-400">in the empty slot</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-emerald-400 tabular-nums whitespace-nowrap">{swap.gain >= 0 ? '+' : ''}{swap.gain.toFixed(1)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
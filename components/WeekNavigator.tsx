@@ -0,0 +1,80 @@
+'use client'
+
+import {
+  SEASON_TYPES,
+  SEASON_TYPE_LABELS,
+  WeekSelection,
+  getSeasonTypeWeeks,
+  getWeekLabel,
+  stepWeek
+} from '@/lib/weekResolution'
+
+interface WeekNavigatorProps {
+  // Week currently shown
+  selection: WeekSelection
+  // Whether the shown week is the live current week
+  isCurrent: boolean
+  disabled?: boolean
+  // Called with the week to browse, or null to follow the current week again
+  onChange: (selection: WeekSelection | null) => void
+}
+
+const SEASON_TYPE_OPTIONS = [SEASON_TYPES.PRESEASON, SEASON_TYPES.REGULAR, SEASON_TYPES.POSTSEASON]
+
+export default function WeekNavigator({ selection, isCurrent, disabled, onChange }: WeekNavigatorProps) {
+  const previous = stepWeek(selection, -1)
+  const next = stepWeek(selection, 1)
+  const weekCount = getSeasonTypeWeeks(selection.seasonType)
+
+  return (
+    <div className="flex items-center justify-center gap-2 mt-2">
+      <button
+        onClick={() => previous && onChange(previous)}
+        disabled={disabled || !previous}
+        className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-sm"
+        title="Previous week"
+      >
+        ‹
+      </button>
+      <select
+        value={selection.seasonType}
+        onChange={(e) => onChange({ ...selection, seasonType: Number(e.target.value), week: 1 })}
+        disabled={disabled}
+        className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-sm"
+      >
+        {SEASON_TYPE_OPTIONS.map(seasonType => (
+          <option key={seasonType} value={seasonType}>
+            {selection.season} {SEASON_TYPE_LABELS[seasonType]}
+          </option>
+        ))}
+      </select>
+      <select
+        value={selection.week}
+        onChange={(e) => onChange({ ...selection, week: Number(e.target.value) })}
+        disabled={disabled}
+        className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-sm"
+      >
+        {Array.from({ length: weekCount }, (_, index) => index + 1).map(week => (
+          <option key={week} value={week}>{getWeekLabel(selection.seasonType, week)}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => next && onChange(next)}
+        disabled={disabled || !next}
+        className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-sm"
+        title="Next week"
+      >
+        ›
+      </button>
+      {!isCurrent && (
+        <button
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="px-2 py-1 rounded text-sm text-blue-300 hover:text-blue-200 disabled:opacity-40"
+        >
+          Current week
+        </button>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
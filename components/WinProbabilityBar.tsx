@@ -0,0 +1,32 @@
+'use client'
+
+import { WinProbability } from '@/lib/winProbability'
+
+interface WinProbabilityBarProps {
+  winProbability: WinProbability
+}
+
+export default function WinProbabilityBar({ winProbability }: WinProbabilityBarProps) {
+  const percent = Math.round(winProbability.probability * 100)
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className={`font-semibold tabular-nums ${percent >= 50 ? 'text-emerald-400' : 'text-red-400'}`}>
+          {percent}% win
+        </span>
+        <span className="text-slate-400">
+          {winProbability.isLocked
+            ? 'Locked'
+            : `${winProbability.playersRemaining} ${winProbability.playersRemaining === 1 ? 'player' : 'players'} left`}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-red-500/60 overflow-hidden">
+        <div
+          className="h-full bg-emerald-500 transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
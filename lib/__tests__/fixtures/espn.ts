@@ -0,0 +1,88 @@
+import { ESPNGame, ESPNScoreboard } from '@/types'
+
+// Trimmed ESPN scoreboard fixtures: only the fields the app reads are filled in
+
+export interface GameFixture {
+  id: string
+  // Kickoff, as ESPN formats it, e.g. '2025-09-05T00:20Z'
+  date: string
+  seasonType: number
+  week: number
+  home: string
+  away: string
+  // ESPN status state: 'pre', 'in' or 'post'
+  state?: string
+}
+
+const competitor = (abbreviation: string, homeAway: string) => ({
+  id: abbreviation,
+  homeAway,
+  team: { id: abbreviation, abbreviation, displayName: abbreviation },
+  score: '0'
+})
+
+export const makeGame = ({ id, date, seasonType, week, home, away, state = 'pre' }: GameFixture): ESPNGame => ({
+  id,
+  date,
+  name: `${away} at ${home}`,
+  shortName: `${away} @ ${home}`,
+  season: { year: 2025, type: seasonType },
+  week: { number: week },
+  competitions: [{
+    id,
+    date,
+    competitors: [competitor(home, 'home'), competitor(away, 'away')],
+    status: {
+      clock: 0,
+      displayClock: '0:00',
+      period: 0,
+      type: { id: '1', name: 'STATUS', state, completed: state === 'post', description: '', detail: '', shortDetail: '' }
+    }
+  }]
+}) as unknown as ESPNGame
+
+export const makeScoreboard = (seasonType: number, week: number, games: GameFixture[]): ESPNScoreboard => ({
+  leagues: [],
+  season: { type: seasonType, year: 2025 },
+  week: { number: week },
+  events: games.map(makeGame)
+})
+
+// 2025 regular season week 1, opening on Thursday night
+export const WEEK_1_GAMES: GameFixture[] = [
+  { id: '101', date: '2025-09-05T00:20Z', seasonType: 2, week: 1, home: 'PHI', away: 'DAL' },
+  { id: '102', date: '2025-09-07T17:00Z', seasonType: 2, week: 1, home: 'WSH', away: 'NYG' },
+  { id: '103', date: '2025-09-07T20:25Z', seasonType: 2, week: 1, home: 'DEN', away: 'TEN' },
+  { id: '104', date: '2025-09-09T00:15Z', seasonType: 2, week: 1, home: 'CHI', away: 'MIN' }
+]
+
+// Week 2, from Thursday night to Monday night
+export const WEEK_2_GAMES: GameFixture[] = [
+  { id: '201', date: '2025-09-12T00:15Z', seasonType: 2, week: 2, home: 'GB', away: 'WSH' },
+  { id: '202', date: '2025-09-14T17:00Z', seasonType: 2, week: 2, home: 'DAL', away: 'NYG' },
+  { id: '203', date: '2025-09-14T20:25Z', seasonType: 2, week: 2, home: 'DEN', away: 'IND' },
+  { id: '204', date: '2025-09-16T00:15Z', seasonType: 2, week: 2, home: 'MIN', away: 'ATL' }
+]
+
+// Week 3, as ESPN lists it while week 2's Monday night game is still on the board
+export const WEEK_3_GAMES: GameFixture[] = [
+  { id: '301', date: '2025-09-19T00:15Z', seasonType: 2, week: 3, home: 'BUF', away: 'MIA' },
+  { id: '302', date: '2025-09-21T17:00Z', seasonType: 2, week: 3, home: 'PHI', away: 'LAR' }
+]
+
+// Week 5, with DAL, PHI, WSH and NYG on bye
+export const BYE_WEEK_GAMES: GameFixture[] = [
+  { id: '501', date: '2025-10-05T17:00Z', seasonType: 2, week: 5, home: 'DEN', away: 'TEN' },
+  { id: '502', date: '2025-10-05T20:25Z', seasonType: 2, week: 5, home: 'CHI', away: 'MIN' }
+]
+
+// 2025 preseason week 3
+export const PRESEASON_WEEK_3_GAMES: GameFixture[] = [
+  { id: '1301', date: '2025-08-22T23:00Z', seasonType: 1, week: 3, home: 'DEN', away: 'NO' }
+]
+
+// Postseason week 1, the Wild Card round
+export const WILD_CARD_GAMES: GameFixture[] = [
+  { id: '3101', date: '2026-01-10T21:30Z', seasonType: 3, week: 1, home: 'PHI', away: 'GB' },
+  { id: '3102', date: '2026-01-11T18:00Z', seasonType: 3, week: 1, home: 'BUF', away: 'DEN' }
+]
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { SleeperNFLState } from '@/types'
+
+// Sleeper's /state/nfl response for a season type and week
+export const makeSleeperState = (seasonType: 'pre' | 'regular' | 'post', week: number): SleeperNFLState => ({
+  week,
+  display_week: week,
+  season: '2025',
+  season_type: seasonType,
+  leg: week,
+  previous_season: '2024',
+  season_start_date: '2025-09-04'
+})
\ No newline at end of file
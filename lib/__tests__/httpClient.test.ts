@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { EspnApiError, SleeperApiError, request, requestJson } from '@/lib/httpClient'
+
+// Response whose body resolves (or fails) as the given function says
+const makeResponse = (json: (signal: AbortSignal) => Promise<unknown>, signal: AbortSignal, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers(),
+  json: () => json(signal)
+})
+
+// Body that never finishes downloading unless the request is aborted
+const stalledBody = (signal: AbortSignal) => new Promise((_, reject) => {
+  signal.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')))
+})
+
+describe('request', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('returns the parsed body', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) =>
+      makeResponse(async () => ({ week: 3 }), init.signal!)))
+
+    expect(await requestJson('sleeper', 'https://sleeper.test/state', { description: 'Sleeper state' })).toEqual({ week: 3 })
+  })
+
+  it('wraps a malformed body in a typed error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) =>
+      makeResponse(async () => { throw new SyntaxError('Unexpected token <') }, init.signal!)))
+
+    const error = await request('espn', 'https://espn.test/scoreboard', { description: 'ESPN scoreboard', retries: 0 })
+      .catch(error => error)
+    expect(error).toBeInstanceOf(EspnApiError)
+    expect(error.message).toBe('ESPN scoreboard API returned invalid JSON')
+  })
+
+  it('times out while the body is still downloading', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => makeResponse(stalledBody, init.signal!)))
+
+    const error = await request('sleeper', 'https://sleeper.test/players', { description: 'Sleeper players', timeout: 20, retries: 0 })
+      .catch(error => error)
+    expect(error).toBeInstanceOf(SleeperApiError)
+    expect(error.message).toBe('Sleeper players API request timed out')
+    expect(error.retryable).toBe(true)
+  })
+
+  it('does not read the body of accepted non-2xx statuses', async () => {
+    const json = vi.fn(async () => ({}))
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => makeResponse(json, init.signal!, 304)))
+
+    const { response, data } = await request('app', '/api/players?ids=1', { description: 'Players', acceptStatuses: [304] })
+    expect(response.status).toBe(304)
+    expect(data).toBeUndefined()
+    expect(json).not.toHaveBeenCalled()
+  })
+})
\ No newline at end of file
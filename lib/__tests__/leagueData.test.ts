@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { SleeperMatchup, UserLeague } from '@/types'
+
+const fetchSleeperMatchups = vi.fn(async (_leagueId: string, week: number) => [{ roster_id: 1, matchup_id: week, points: 0 }])
+
+vi.mock('@/lib/api', () => ({
+  fetchSleeperLeague: vi.fn(async () => ({ settings: {} })),
+  fetchSleeperLeagueRosters: vi.fn(async () => [{ roster_id: 1, owner_id: 'me' }]),
+  fetchSleeperLeagueUsers: vi.fn(async () => []),
+  fetchSleeperMatchups,
+  findOpponentRoster: vi.fn(() => null),
+  findUserRoster: vi.fn(() => ({ roster_id: 1, owner_id: 'me' }))
+}))
+
+const LEAGUE = { sleeper_league_id: 'L1', sleeper_user_id: 'me', league_name: 'Test League' } as UserLeague
+
+describe('league data store', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    fetchSleeperMatchups.mockClear()
+  })
+
+  it('evicts the least recently used weeks', async () => {
+    const { getLeagueWeekData, loadLeaguesWeek } = await import('@/lib/leagueData')
+
+    for (const week of [1, 2, 3]) await loadLeaguesWeek([LEAGUE], week)
+    // Going back to week 1 keeps it in use
+    await loadLeaguesWeek([LEAGUE], 1)
+    await loadLeaguesWeek([LEAGUE], 4)
+
+    expect(getLeagueWeekData('L1', 1)).toBeDefined()
+    expect(getLeagueWeekData('L1', 2)).toBeUndefined()
+    expect(getLeagueWeekData('L1', 3)).toBeDefined()
+    expect(getLeagueWeekData('L1', 4)).toBeDefined()
+    expect(fetchSleeperMatchups).toHaveBeenCalledTimes(4)
+  })
+
+  it('keeps polled weeks in use', async () => {
+    const { getLeagueWeekData, loadLeaguesWeek, updateLeagueMatchups } = await import('@/lib/leagueData')
+
+    await loadLeaguesWeek([LEAGUE], 5)
+    for (const week of [1, 2]) await loadLeaguesWeek([LEAGUE], week)
+    updateLeagueMatchups(5, new Map([['L1', [{ roster_id: 1, matchup_id: 5, points: 12 } as SleeperMatchup]]]))
+    await loadLeaguesWeek([LEAGUE], 3)
+
+    expect(getLeagueWeekData('L1', 5)?.matchups[0].points).toBe(12)
+    expect(getLeagueWeekData('L1', 1)).toBeUndefined()
+  })
+})
\ No newline at end of file
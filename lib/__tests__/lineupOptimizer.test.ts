@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { assignSlots } from '@/lib/lineupOptimizer'
+
+const WR = { positions: ['WR'], weight: 20 }
+const RB = { positions: ['RB'], weight: 10 }
+const TE = { positions: ['TE'], weight: 5 }
+
+describe('assignSlots', () => {
+  it('keeps a flex slot open for the player only it can take', () => {
+    // Greedy would put the WR in W/R and leave the TE for W/T: 25 instead of 30
+    expect(assignSlots(['WRRB_FLEX', 'REC_FLEX'], [WR, RB, TE])).toEqual([1, 0])
+  })
+
+  it('starts the best eligible players', () => {
+    const candidates = [
+      { positions: ['RB'], weight: 8 },
+      { positions: ['RB'], weight: 14 },
+      { positions: ['WR'], weight: 11 },
+      { positions: ['TE'], weight: 9 }
+    ]
+    expect(assignSlots(['RB', 'WR', 'TE', 'FLEX'], candidates)).toEqual([1, 2, 3, 0])
+  })
+
+  it('fills every slot before maximizing points', () => {
+    // Benching the QB for a better RB in SUPER_FLEX would leave the QB slot empty
+    const candidates = [
+      { positions: ['QB'], weight: 15 },
+      { positions: ['RB'], weight: 25 }
+    ]
+    expect(assignSlots(['QB', 'SUPER_FLEX'], candidates)).toEqual([0, 1])
+  })
+
+  it('leaves slots empty without an eligible player', () => {
+    expect(assignSlots(['K', 'WR'], [WR, RB])).toEqual([-1, 0])
+    expect(assignSlots(['QB'], [])).toEqual([-1])
+  })
+
+  it('uses players eligible at several positions', () => {
+    const candidates = [
+      { positions: ['DL', 'LB'], weight: 12 },
+      { positions: ['LB'], weight: 10 }
+    ]
+    expect(assignSlots(['DL', 'LB'], candidates)).toEqual([0, 1])
+  })
+})
\ No newline at end of file
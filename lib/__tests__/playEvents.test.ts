@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { ESPNScoringPlay, ESPNSummary, PlayerLineup } from '@/types'
+import { detectPlayEvents } from '@/lib/playEvents'
+import { makeGame } from './fixtures/espn'
+
+const GAME = makeGame({ id: '201', date: '2025-09-07T20:05Z', seasonType: 2, week: 1, home: 'ARI', away: 'NO' })
+
+const lineup = (name: string, team: string): PlayerLineup => ({
+  playerId: name,
+  name,
+  position: 'WR',
+  team,
+  leagueIds: ['L1'],
+  leagueNames: ['Test League'],
+  leaguePoints: [0],
+  isOpponent: false
+})
+
+const touchdown = (id: string, text: string): ESPNScoringPlay => ({
+  id,
+  text,
+  period: { number: 1 },
+  clock: { displayValue: '5:00' },
+  type: { id: '67', text: 'Passing Touchdown', abbreviation: 'TD' },
+  team: { id: 'ARI', abbreviation: 'ARI', displayName: 'ARI' }
+})
+
+const involvedNames = (text: string, lineups: PlayerLineup[]) => {
+  const summary: ESPNSummary = { scoringPlays: [touchdown('1', text)] }
+  return detectPlayEvents(summary, GAME, lineups).flatMap(event => event.involvements.map(i => i.name))
+}
+
+describe('detectPlayEvents', () => {
+  it('finds players whose name ends in a period', () => {
+    const harrison = lineup('Marvin Harrison Jr.', 'ARI')
+    expect(involvedNames('Marvin Harrison Jr. 18 Yd pass from Kyler Murray (Chad Ryland Kick)', [harrison]))
+      .toEqual(['Marvin Harrison Jr.'])
+    expect(involvedNames('K.Murray pass short right to M.Harrison Jr. for 18 yards, TOUCHDOWN.', [harrison]))
+      .toEqual(['Marvin Harrison Jr.'])
+  })
+
+  it('matches whole names only', () => {
+    expect(involvedNames('Trey McBride 4 Yd pass from Kyler Murray', [lineup('Trey McBrid', 'ARI')])).toEqual([])
+  })
+})
\ No newline at end of file
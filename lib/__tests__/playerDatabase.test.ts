@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const fetchSleeperPlayers = vi.fn()
+
+vi.mock('@/lib/api', () => ({ fetchSleeperPlayers }))
+
+// No copy on disk, and nothing is written to it
+vi.mock('fs', () => ({
+  promises: {
+    readFile: vi.fn(async () => { throw new Error('ENOENT') }),
+    writeFile: vi.fn(async () => {})
+  }
+}))
+
+const PLAYERS = { '4046': { player_id: '4046', first_name: 'Patrick', last_name: 'Mahomes' } }
+
+const HOUR = 60 * 60 * 1000
+
+describe('getPlayerDatabase', () => {
+  beforeEach(() => {
+    vi.resetModules()
+    fetchSleeperPlayers.mockReset()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-07T12:00:00Z'))
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('downloads the database at most daily', async () => {
+    const { getPlayerDatabase } = await import('@/lib/playerDatabase')
+    fetchSleeperPlayers.mockResolvedValue(PLAYERS)
+
+    await getPlayerDatabase()
+    vi.advanceTimersByTime(23 * HOUR)
+    await getPlayerDatabase()
+    expect(fetchSleeperPlayers).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(2 * HOUR)
+    await getPlayerDatabase()
+    expect(fetchSleeperPlayers).toHaveBeenCalledTimes(2)
+  })
+
+  it('serves the stale copy without retrying Sleeper for a while after a failed refresh', async () => {
+    const { getPlayerDatabase } = await import('@/lib/playerDatabase')
+    fetchSleeperPlayers.mockResolvedValueOnce(PLAYERS)
+    const fresh = await getPlayerDatabase()
+
+    vi.advanceTimersByTime(25 * HOUR)
+    fetchSleeperPlayers.mockRejectedValue(new Error('Sleeper is down'))
+    expect(await getPlayerDatabase()).toBe(fresh)
+    expect(fetchSleeperPlayers).toHaveBeenCalledTimes(2)
+
+    // Requests within the retry delay get the stale copy straight away
+    vi.advanceTimersByTime(10 * 60 * 1000)
+    expect(await getPlayerDatabase()).toBe(fresh)
+    expect(fetchSleeperPlayers).toHaveBeenCalledTimes(2)
+
+    vi.advanceTimersByTime(6 * 60 * 1000)
+    fetchSleeperPlayers.mockResolvedValue(PLAYERS)
+    const refreshed = await getPlayerDatabase()
+    expect(fetchSleeperPlayers).toHaveBeenCalledTimes(3)
+    expect(refreshed.updatedAt).toBeGreaterThan(fresh.updatedAt)
+  })
+
+  it('fails without a copy to fall back on', async () => {
+    const { getPlayerDatabase } = await import('@/lib/playerDatabase')
+    fetchSleeperPlayers.mockRejectedValue(new Error('Sleeper is down'))
+    await expect(getPlayerDatabase()).rejects.toThrow('Sleeper is down')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+import { buildTeamGameMap } from '@/lib/projections'
+import { WEEK_1_GAMES, makeGame } from './fixtures/espn'
+
+describe('buildTeamGameMap', () => {
+  it('keys games by Sleeper team codes', () => {
+    const teamGames = buildTeamGameMap(WEEK_1_GAMES.map(makeGame))
+    // ESPN's WSH is Sleeper's WAS, so Washington players find their game (and its lock)
+    expect(teamGames.get('WAS')?.id).toBe('102')
+    expect(teamGames.has('WSH')).toBe(false)
+    expect(teamGames.get('NYG')?.id).toBe('102')
+    expect(teamGames.get('MIN')?.id).toBe('104')
+  })
+})
\ No newline at end of file
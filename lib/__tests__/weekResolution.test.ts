@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SEASON_TYPES,
+  filterScoreboardWeek,
+  getFantasyRound,
+  getFantasyRoundLabel,
+  getFantasyWeek,
+  resolveCurrentWeek,
+  resolveWeek
+} from '@/lib/weekResolution'
+import {
+  BYE_WEEK_GAMES,
+  PRESEASON_WEEK_3_GAMES,
+  WEEK_1_GAMES,
+  WEEK_2_GAMES,
+  WEEK_3_GAMES,
+  WILD_CARD_GAMES,
+  makeScoreboard
+} from './fixtures/espn'
+import { makeSleeperState } from './fixtures/sleeper'
+
+const { PRESEASON, REGULAR, POSTSEASON } = SEASON_TYPES
+
+const at = (date: string) => Date.parse(date)
+
+const eventIds = (scoreboard: { events: Array<{ id: string }> }) => scoreboard.events.map(game => game.id)
+
+// Week 2's Monday night game, still on ESPN's board next to week 3's games
+const MONDAY_NIGHT_BOARD = makeScoreboard(REGULAR, 3, [WEEK_2_GAMES[3], ...WEEK_3_GAMES])
+
+describe('resolveWeek', () => {
+  it('resolves the season opener on Thursday', () => {
+    const scoreboard = makeScoreboard(REGULAR, 1, WEEK_1_GAMES)
+    const week = resolveWeek(makeSleeperState('regular', 1), scoreboard, at('2025-09-04T22:00Z'))
+    expect(week).toEqual({ seasonType: REGULAR, week: 1 })
+  })
+
+  it('lets ESPN decide the opener while Sleeper still reports the preseason', () => {
+    const scoreboard = makeScoreboard(REGULAR, 1, WEEK_1_GAMES)
+    const week = resolveWeek(makeSleeperState('pre', 4), scoreboard, at('2025-09-05T01:00Z'))
+    expect(week).toEqual({ seasonType: REGULAR, week: 1 })
+  })
+
+  it('resolves the preseason', () => {
+    const scoreboard = makeScoreboard(PRESEASON, 3, PRESEASON_WEEK_3_GAMES)
+    const week = resolveWeek(makeSleeperState('pre', 3), scoreboard, at('2025-08-22T20:00Z'))
+    expect(week).toEqual({ seasonType: PRESEASON, week: 3 })
+  })
+
+  it('resolves Thursday night before and during the game', () => {
+    const scoreboard = makeScoreboard(REGULAR, 2, WEEK_2_GAMES)
+    const state = makeSleeperState('regular', 2)
+    expect(resolveWeek(state, scoreboard, at('2025-09-11T22:00Z'))).toEqual({ seasonType: REGULAR, week: 2 })
+    expect(resolveWeek(state, scoreboard, at('2025-09-12T01:30Z'))).toEqual({ seasonType: REGULAR, week: 2 })
+  })
+
+  it('resolves Sunday', () => {
+    const scoreboard = makeScoreboard(REGULAR, 2, WEEK_2_GAMES)
+    const week = resolveWeek(makeSleeperState('regular', 2), scoreboard, at('2025-09-14T18:00Z'))
+    expect(week).toEqual({ seasonType: REGULAR, week: 2 })
+  })
+
+  it('keeps the week on Monday night when Sleeper has not moved on', () => {
+    const scoreboard = makeScoreboard(REGULAR, 2, WEEK_2_GAMES)
+    const week = resolveWeek(makeSleeperState('regular', 2), scoreboard, at('2025-09-16T01:00Z'))
+    expect(week).toEqual({ seasonType: REGULAR, week: 2 })
+  })
+
+  it('uses ESPN\'s week on Monday night when Sleeper has moved on and ESPN has not', () => {
+    const scoreboard = makeScoreboard(REGULAR, 2, WEEK_2_GAMES)
+    const week = resolveWeek(makeSleeperState('regular', 3), scoreboard, at('2025-09-16T01:00Z'))
+    expect(week).toEqual({ seasonType: REGULAR, week: 2 })
+  })
+
+  it('keeps Monday night\'s week until its game is over plus the transition delay', () => {
+    const state = makeSleeperState('regular', 3)
+    // Kickoff at 00:15, plus 3.5 hours of game and 6 hours of delay
+    expect(resolveWeek(state, MONDAY_NIGHT_BOARD, at('2025-09-16T01:00Z'))).toEqual({ seasonType: REGULAR, week: 2 })
+    expect(resolveWeek(state, MONDAY_NIGHT_BOARD, at('2025-09-16T09:44Z'))).toEqual({ seasonType: REGULAR, week: 2 })
+    expect(resolveWeek(state, MONDAY_NIGHT_BOARD, at('2025-09-16T09:46Z'))).toEqual({ seasonType: REGULAR, week: 3 })
+  })
+
+  it('resolves a week with teams on bye', () => {
+    const scoreboard = makeScoreboard(REGULAR, 5, BYE_WEEK_GAMES)
+    const week = resolveWeek(makeSleeperState('regular', 5), scoreboard, at('2025-10-05T18:00Z'))
+    expect(week).toEqual({ seasonType: REGULAR, week: 5 })
+  })
+
+  it('falls back to Sleeper\'s week when the scoreboard has no games', () => {
+    const scoreboard = makeScoreboard(REGULAR, 5, [])
+    const week = resolveWeek(makeSleeperState('regular', 5), scoreboard, at('2025-10-07T12:00Z'))
+    expect(week).toEqual({ seasonType: REGULAR, week: 5 })
+  })
+
+  it('resolves the NFL playoffs', () => {
+    const scoreboard = makeScoreboard(POSTSEASON, 1, WILD_CARD_GAMES)
+    const week = resolveWeek(makeSleeperState('post', 1), scoreboard, at('2026-01-10T22:00Z'))
+    expect(week).toEqual({ seasonType: POSTSEASON, week: 1 })
+  })
+
+  it('lets ESPN decide the postseason while Sleeper still counts regular-season weeks', () => {
+    const scoreboard = makeScoreboard(POSTSEASON, 1, WILD_CARD_GAMES)
+    const week = resolveWeek(makeSleeperState('regular', 19), scoreboard, at('2026-01-10T22:00Z'))
+    expect(week).toEqual({ seasonType: POSTSEASON, week: 1 })
+  })
+
+  it('lets ESPN decide without a Sleeper state', () => {
+    const scoreboard = makeScoreboard(POSTSEASON, 1, WILD_CARD_GAMES)
+    expect(resolveWeek(null, scoreboard, at('2026-01-10T22:00Z'))).toEqual({ seasonType: POSTSEASON, week: 1 })
+  })
+})
+
+describe('filterScoreboardWeek', () => {
+  it('keeps only the week\'s games', () => {
+    const week2 = filterScoreboardWeek(MONDAY_NIGHT_BOARD, { seasonType: REGULAR, week: 2 })
+    expect(eventIds(week2)).toEqual(['204'])
+    expect(week2.week).toEqual({ number: 2 })
+
+    const week3 = filterScoreboardWeek(MONDAY_NIGHT_BOARD, { seasonType: REGULAR, week: 3 })
+    expect(eventIds(week3)).toEqual(['301', '302'])
+  })
+
+  it('leaves teams on bye without a game', () => {
+    const scoreboard = filterScoreboardWeek(makeScoreboard(REGULAR, 5, BYE_WEEK_GAMES), { seasonType: REGULAR, week: 5 })
+    const teams = scoreboard.events.flatMap(game => game.competitions[0].competitors.map(team => team.team.abbreviation))
+    expect(teams).toEqual(['DEN', 'TEN', 'CHI', 'MIN'])
+  })
+
+  it('keeps every game when none match the week', () => {
+    const scoreboard = filterScoreboardWeek(makeScoreboard(REGULAR, 2, WEEK_2_GAMES), { seasonType: REGULAR, week: 4 })
+    expect(eventIds(scoreboard)).toEqual(['201', '202', '203', '204'])
+    expect(scoreboard.week).toEqual({ number: 4 })
+  })
+
+  it('sets the season type of the resolved week', () => {
+    const scoreboard = filterScoreboardWeek(makeScoreboard(REGULAR, 1, WILD_CARD_GAMES), { seasonType: POSTSEASON, week: 1 })
+    expect(scoreboard.season.type).toBe(POSTSEASON)
+    expect(eventIds(scoreboard)).toEqual(['3101', '3102'])
+  })
+})
+
+describe('resolveCurrentWeek', () => {
+  it('resolves the week at the injected clock', () => {
+    const state = makeSleeperState('regular', 3)
+    const monday = resolveCurrentWeek(state, MONDAY_NIGHT_BOARD, () => at('2025-09-16T01:00Z'))
+    const tuesday = resolveCurrentWeek(state, MONDAY_NIGHT_BOARD, () => at('2025-09-16T12:00Z'))
+    expect(monday.week.number).toBe(2)
+    expect(eventIds(monday)).toEqual(['204'])
+    expect(tuesday.week.number).toBe(3)
+    expect(eventIds(tuesday)).toEqual(['301', '302'])
+  })
+})
+
+describe('getFantasyWeek', () => {
+  it('has fantasy weeks only in the regular season', () => {
+    expect(getFantasyWeek(REGULAR, 17)).toBe(17)
+    expect(getFantasyWeek(PRESEASON, 3)).toBeNull()
+    expect(getFantasyWeek(POSTSEASON, 1)).toBeNull()
+  })
+})
+
+describe('getFantasyRound', () => {
+  it('is null without playoff settings or before the playoffs', () => {
+    expect(getFantasyRound(undefined, 15)).toBeNull()
+    expect(getFantasyRound({ playoff_teams: 6 }, 15)).toBeNull()
+    expect(getFantasyRound({ playoff_week_start: 15, playoff_teams: 6 }, 14)).toBeNull()
+  })
+
+  it('plays one week per round by default', () => {
+    const settings = { playoff_week_start: 15, playoff_teams: 6 }
+    expect(getFantasyRound(settings, 15)).toEqual({ round: 1, weeks: [15], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 16)).toEqual({ round: 2, weeks: [16], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 17)).toEqual({ round: 3, weeks: [17], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 18)).toBeNull()
+  })
+
+  it('assumes six playoff teams when the league does not say', () => {
+    expect(getFantasyRound({ playoff_week_start: 15 }, 17)).toEqual({ round: 3, weeks: [17], weekOfRound: 1 })
+  })
+
+  it('has fewer rounds with fewer playoff teams', () => {
+    const settings = { playoff_week_start: 15, playoff_teams: 4 }
+    expect(getFantasyRound(settings, 16)).toEqual({ round: 2, weeks: [16], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 17)).toBeNull()
+  })
+
+  it('plays a two-week championship', () => {
+    const settings = { playoff_week_start: 15, playoff_teams: 6, playoff_round_type: 1 }
+    expect(getFantasyRound(settings, 16)).toEqual({ round: 2, weeks: [16], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 17)).toEqual({ round: 3, weeks: [17, 18], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 18)).toEqual({ round: 3, weeks: [17, 18], weekOfRound: 2 })
+  })
+
+  it('plays two weeks per round', () => {
+    const settings = { playoff_week_start: 14, playoff_teams: 4, playoff_round_type: 2 }
+    expect(getFantasyRound(settings, 14)).toEqual({ round: 1, weeks: [14, 15], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 15)).toEqual({ round: 1, weeks: [14, 15], weekOfRound: 2 })
+    expect(getFantasyRound(settings, 16)).toEqual({ round: 2, weeks: [16, 17], weekOfRound: 1 })
+    expect(getFantasyRound(settings, 17)).toEqual({ round: 2, weeks: [16, 17], weekOfRound: 2 })
+    expect(getFantasyRound(settings, 18)).toBeNull()
+  })
+})
+
+describe('getFantasyRoundLabel', () => {
+  it('shows the week within multi-week rounds', () => {
+    expect(getFantasyRoundLabel({ round: 1, weeks: [15], weekOfRound: 1 })).toBe('Playoffs round 1')
+    expect(getFantasyRoundLabel({ round: 3, weeks: [17, 18], weekOfRound: 2 })).toBe('Playoffs round 3 · week 2 of 2')
+  })
+})
\ No newline at end of file
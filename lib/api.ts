@@ -1,142 +1,76 @@
-import { ESPNScoreboard, SleeperMatchup, SleeperRoster, SleeperUser } from '@/types'
+import { ESPNScoreboard, ESPNSummary, SleeperLeague, SleeperMatchup, SleeperNFLState, SleeperPlayers, SleeperProjectionStats, SleeperRoster, SleeperUser, UserLeague } from '@/types'
+import { parseSleeperPlayers } from './players'
+import { request, requestJson } from './httpClient'
+import { Clock, ResolvedWeek, WeekSelection, filterScoreboardWeek, getSleeperSeasonType, resolveWeek, systemClock } from './weekResolution'
+
+const ESPN_BASE_URL = 'https://site.api.espn.com/apis/site/v2/sports/football/nfl'
+const SLEEPER_BASE_URL = 'https://api.sleeper.app/v1'
+
+// The full player database is several megabytes
+const SLEEPER_PLAYERS_TIMEOUT = 60000
 
 // ESPN API Functions
 export const fetchCurrentWeekGames = async (): Promise<ESPNScoreboard> => {
-  try {
-    const response = await fetch('https://site.api.espn.com/apis/site/v2/sports/football/nfl/scoreboard')
-    if (!response.ok) {
-      throw new Error(`ESPN API error: ${response.status}`)
-    }
-    return await response.json()
-  } catch (error) {
-    console.error('Error fetching ESPN games:', error)
-    throw error
-  }
+  return requestJson<ESPNScoreboard>('espn', `${ESPN_BASE_URL}/scoreboard`, { description: 'ESPN scoreboard' })
+}
+
+// Scoreboard for a specific week, e.g. to review past weeks
+export const fetchWeekGames = async ({ season, seasonType, week }: WeekSelection): Promise<ESPNScoreboard> => {
+  const scoreboard = await requestJson<ESPNScoreboard>(
+    'espn',
+    `${ESPN_BASE_URL}/scoreboard?dates=${season}&seasontype=${seasonType}&week=${week}`,
+    { description: `ESPN scoreboard for ${season} week ${week}` }
+  )
+  return filterScoreboardWeek(scoreboard, { seasonType, week })
+}
+
+// Play-by-play and scoring plays for a single game
+export const fetchGameSummary = async (eventId: string): Promise<ESPNSummary> => {
+  return requestJson<ESPNSummary>('espn', `${ESPN_BASE_URL}/summary?event=${eventId}`, {
+    description: `ESPN summary for game ${eventId}`
+  })
 }
 
 // Cache for week calculation to avoid repeated expensive operations
-let weekCalculationCache: { timestamp: number, week: number } | null = null
+let weekCalculationCache: { timestamp: number, week: ResolvedWeek } | null = null
 const WEEK_CACHE_DURATION = 10 * 60 * 1000 // 10 minutes
 
-// Calculate the effective current week with 6-hour delay after last game
-export const getEffectiveCurrentWeek = async () => {
-  try {
-    // Check cache first
-    const now = Date.now()
-    if (weekCalculationCache && (now - weekCalculationCache.timestamp) < WEEK_CACHE_DURATION) {
-      return weekCalculationCache.week
-    }
-
-    // Get both sources of truth
-    const [nflState, scoreboard] = await Promise.all([
-      fetchSleeperNFLState(),
-      fetchCurrentWeekGames()
-    ])
-
-    const sleeperWeek = nflState.week || 1
-    const espnWeek = scoreboard.week?.number
-
-    // Check what weeks are actually available in the games data
-    const gameWeeks = [...new Set(scoreboard.events.map(game => game.week?.number).filter(Boolean))]
-    let effectiveWeek = sleeperWeek
-
-    // If Sleeper week doesn't match available games, use ESPN week
-    if (!gameWeeks.includes(sleeperWeek) && espnWeek && gameWeeks.includes(espnWeek)) {
-      effectiveWeek = espnWeek
-    }
-
-    // Apply 6-hour delay logic for week transition
-    const previousWeekGames = scoreboard.events.filter(game => game.week?.number === (sleeperWeek - 1))
-
-    if (previousWeekGames.length > 0) {
-      const latestPreviousGame = previousWeekGames.reduce((latest, game) => {
-        const gameTime = new Date(game.date)
-        const latestTime = new Date(latest.date)
-        return gameTime > latestTime ? game : latest
-      })
-
-      const gameEndTime = new Date(latestPreviousGame.date)
-      gameEndTime.setHours(gameEndTime.getHours() + 3.5) // Game duration
-      const sixHoursAfterGame = new Date(gameEndTime.getTime() + (6 * 60 * 60 * 1000))
-
-      if (now < sixHoursAfterGame.getTime()) {
-        effectiveWeek = sleeperWeek - 1
-      }
-    }
-
-    // Cache the result
-    weekCalculationCache = { timestamp: now, week: effectiveWeek }
-    return effectiveWeek
+// Resolve the current week from both sources of truth, reusing a recently resolved week
+const resolveScoreboardWeek = async (clock: Clock): Promise<ESPNScoreboard> => {
+  const now = clock()
+  if (weekCalculationCache && (now - weekCalculationCache.timestamp) < WEEK_CACHE_DURATION) {
+    const scoreboard = await fetchCurrentWeekGames()
+    return filterScoreboardWeek(scoreboard, weekCalculationCache.week)
+  }
+
+  const [nflState, scoreboard] = await Promise.all([
+    fetchSleeperNFLState(),
+    fetchCurrentWeekGames()
+  ])
+
+  const week = resolveWeek(nflState, scoreboard, now)
+  weekCalculationCache = { timestamp: now, week }
+  return filterScoreboardWeek(scoreboard, week)
+}
 
+// Calculate the effective current week, keeping the previous week until its last game is well over
+export const getEffectiveCurrentWeek = async (clock: Clock = systemClock) => {
+  try {
+    return (await resolveScoreboardWeek(clock)).week.number
   } catch (error) {
     console.error('Error calculating effective current week:', error)
     // Fallback to Sleeper's current week
     const nflState = await fetchSleeperNFLState()
     const fallbackWeek = nflState.week || 1
-    weekCalculationCache = { timestamp: Date.now(), week: fallbackWeek }
+    weekCalculationCache = { timestamp: clock(), week: { seasonType: getSleeperSeasonType(nflState), week: fallbackWeek } }
     return fallbackWeek
   }
 }
 
-// Optimized function that calculates week and filters games in one go
-export const fetchFilteredCurrentWeekGames = async () => {
+// Current week's games, with the week resolved the same way as getEffectiveCurrentWeek
+export const fetchFilteredCurrentWeekGames = async (clock: Clock = systemClock) => {
   try {
-    // Check cache first
-    const now = Date.now()
-    if (weekCalculationCache && (now - weekCalculationCache.timestamp) < WEEK_CACHE_DURATION) {
-      const scoreboard = await fetchCurrentWeekGames()
-      const effectiveWeek = weekCalculationCache.week
-      const filteredEvents = scoreboard.events.filter(game => game.week?.number === effectiveWeek)
-
-      return {
-        ...scoreboard,
-        week: { number: effectiveWeek },
-        events: filteredEvents.length > 0 ? filteredEvents : scoreboard.events
-      }
-    }
-
-    // Get both sources of truth in parallel
-    const [nflState, scoreboard] = await Promise.all([
-      fetchSleeperNFLState(),
-      fetchCurrentWeekGames()
-    ])
-
-    const sleeperWeek = nflState.week || 1
-    const gameWeeks = [...new Set(scoreboard.events.map(game => game.week?.number).filter(Boolean))]
-    let effectiveWeek = sleeperWeek
-
-    // Use ESPN week if Sleeper week not available in games
-    if (!gameWeeks.includes(sleeperWeek) && scoreboard.week?.number && gameWeeks.includes(scoreboard.week.number)) {
-      effectiveWeek = scoreboard.week.number
-    }
-
-    // Apply 6-hour delay logic for week transition
-    const previousWeekGames = scoreboard.events.filter(game => game.week?.number === (sleeperWeek - 1))
-
-    if (previousWeekGames.length > 0) {
-      const latestPreviousGame = previousWeekGames.reduce((latest, game) =>
-        new Date(game.date) > new Date(latest.date) ? game : latest
-      )
-
-      const gameEndTime = new Date(latestPreviousGame.date)
-      gameEndTime.setHours(gameEndTime.getHours() + 9.5) // Game start + 3.5 duration + 6 hour delay
-
-      if (now < gameEndTime.getTime()) {
-        effectiveWeek = sleeperWeek - 1
-      }
-    }
-
-    // Cache the calculated week
-    weekCalculationCache = { timestamp: now, week: effectiveWeek }
-
-    // Filter games by effective week
-    const filteredEvents = scoreboard.events.filter(game => game.week?.number === effectiveWeek)
-
-    return {
-      ...scoreboard,
-      week: { number: effectiveWeek },
-      events: filteredEvents.length > 0 ? filteredEvents : scoreboard.events
-    }
+    return await resolveScoreboardWeek(clock)
   } catch (error) {
     console.error('Error fetching filtered current week games:', error)
     throw error
@@ -144,82 +78,118 @@ export const fetchFilteredCurrentWeekGames = async () => {
 }
 
 // Sleeper API Functions
-export const fetchSleeperNFLState = async () => {
-  try {
-    const response = await fetch('https://api.sleeper.app/v1/state/nfl')
-    if (!response.ok) {
-      throw new Error(`Sleeper state API error: ${response.status}`)
-    }
-    return await response.json()
-  } catch (error) {
-    console.error('Error fetching Sleeper NFL state:', error)
-    throw error
-  }
+export const fetchSleeperNFLState = async (): Promise<SleeperNFLState> => {
+  return requestJson<SleeperNFLState>('sleeper', `${SLEEPER_BASE_URL}/state/nfl`, { description: 'Sleeper NFL state' })
 }
 
 export const fetchSleeperLeagueUsers = async (leagueId: string): Promise<SleeperUser[]> => {
-  try {
-    const response = await fetch(`https://api.sleeper.app/v1/league/${leagueId}/users`)
-    if (!response.ok) {
-      throw new Error(`Sleeper users API error: ${response.status}`)
-    }
-    return await response.json()
-  } catch (error) {
-    console.error(`Error fetching Sleeper league users for ${leagueId}:`, error)
-    throw error
-  }
+  return requestJson<SleeperUser[]>('sleeper', `${SLEEPER_BASE_URL}/league/${leagueId}/users`, {
+    description: `Sleeper league users for ${leagueId}`
+  })
+}
+
+// Look up a Sleeper user by username or user ID; Sleeper answers null for unknown users
+export const fetchSleeperUser = async (usernameOrId: string): Promise<SleeperUser | null> => {
+  return requestJson<SleeperUser | null>('sleeper', `${SLEEPER_BASE_URL}/user/${encodeURIComponent(usernameOrId)}`, {
+    description: `Sleeper user ${usernameOrId}`
+  })
+}
+
+// Every NFL league a Sleeper user is in for a season
+export const fetchSleeperUserLeagues = async (userId: string, season: string | number): Promise<SleeperLeague[]> => {
+  return requestJson<SleeperLeague[]>('sleeper', `${SLEEPER_BASE_URL}/user/${userId}/leagues/nfl/${season}`, {
+    description: `Sleeper leagues for user ${userId}, ${season}`
+  })
 }
 
 export const fetchSleeperLeagueRosters = async (leagueId: string): Promise<SleeperRoster[]> => {
-  try {
-    const response = await fetch(`https://api.sleeper.app/v1/league/${leagueId}/rosters`)
-    if (!response.ok) {
-      throw new Error(`Sleeper rosters API error: ${response.status}`)
-    }
-    return await response.json()
-  } catch (error) {
-    console.error(`Error fetching Sleeper league rosters for ${leagueId}:`, error)
-    throw error
-  }
+  return requestJson<SleeperRoster[]>('sleeper', `${SLEEPER_BASE_URL}/league/${leagueId}/rosters`, {
+    description: `Sleeper league rosters for ${leagueId}`
+  })
 }
 
 export const fetchSleeperMatchups = async (leagueId: string, week: number): Promise<SleeperMatchup[]> => {
-  try {
-    const response = await fetch(`https://api.sleeper.app/v1/league/${leagueId}/matchups/${week}`)
-    if (!response.ok) {
-      throw new Error(`Sleeper matchups API error: ${response.status}`)
-    }
-    return await response.json()
-  } catch (error) {
-    console.error(`Error fetching Sleeper matchups for ${leagueId}, week ${week}:`, error)
-    throw error
+  return requestJson<SleeperMatchup[]>('sleeper', `${SLEEPER_BASE_URL}/league/${leagueId}/matchups/${week}`, {
+    description: `Sleeper matchups for ${leagueId}, week ${week}`
+  })
+}
+
+export const fetchSleeperPlayers = async (): Promise<SleeperPlayers> => {
+  const rawPlayers = await requestJson('sleeper', `${SLEEPER_BASE_URL}/players/nfl`, {
+    description: 'Sleeper players',
+    timeout: SLEEPER_PLAYERS_TIMEOUT
+  })
+
+  // Validate at the boundary; rejected records are reported when a lineup needs them
+  const { players, errors } = parseSleeperPlayers(rawPlayers)
+  if (errors.length > 0) {
+    console.warn(`Skipped ${errors.length} invalid Sleeper player records`, errors)
   }
+  return players
 }
 
-export const fetchSleeperPlayers = async (): Promise<Record<string, any>> => {
-  try {
-    const response = await fetch('https://api.sleeper.app/v1/players/nfl')
-    if (!response.ok) {
-      throw new Error(`Sleeper players API error: ${response.status}`)
-    }
-    return await response.json()
-  } catch (error) {
-    console.error('Error fetching Sleeper players:', error)
-    throw error
+// Player IDs per /api/players request, which keeps the query string short and well
+// below the route's limit; larger sets (reserves across many leagues) are split
+const PLAYER_IDS_PER_REQUEST = 200
+
+// Last response per requested ID chunk, revalidated with the server's ETag
+const playersByIdsCache = new Map<string, { etag: string, players: SleeperPlayers }>()
+
+const fetchPlayersChunk = async (ids: string[]): Promise<SleeperPlayers> => {
+  const key = ids.join(',')
+  const cached = playersByIdsCache.get(key)
+
+  const { response, data } = await request<{ players: unknown }>('app', `/api/players?ids=${encodeURIComponent(key)}`, {
+    description: 'Players',
+    headers: cached ? { 'If-None-Match': cached.etag } : undefined,
+    acceptStatuses: cached ? [304] : undefined
+  })
+  if (response.status === 304 && cached) {
+    return cached.players
+  }
+
+  const { players, errors } = parseSleeperPlayers(data?.players)
+  if (errors.length > 0) {
+    console.warn(`Skipped ${errors.length} invalid Sleeper player records`, errors)
+  }
+
+  const etag = response.headers.get('ETag')
+  if (etag) {
+    playersByIdsCache.set(key, { etag, players })
   }
+  return players
 }
 
-export const fetchSleeperLeague = async (leagueId: string): Promise<any> => {
-  try {
-    const response = await fetch(`https://api.sleeper.app/v1/league/${leagueId}`)
-    if (!response.ok) {
-      throw new Error(`Sleeper league API error: ${response.status}`)
-    }
-    return await response.json()
-  } catch (error) {
-    console.error(`Error fetching Sleeper league ${leagueId}:`, error)
-    throw error
+// Fetch only the given players from the server-side player database (/api/players)
+export const fetchSleeperPlayersByIds = async (playerIds: string[]): Promise<SleeperPlayers> => {
+  const ids = Array.from(new Set(playerIds.filter(id => id && id !== '0'))).sort()
+  if (ids.length === 0) {
+    return {}
   }
+
+  const chunks: string[][] = []
+  for (let index = 0; index < ids.length; index += PLAYER_IDS_PER_REQUEST) {
+    chunks.push(ids.slice(index, index + PLAYER_IDS_PER_REQUEST))
+  }
+
+  const results = await Promise.all(chunks.map(fetchPlayersChunk))
+  return Object.assign({}, ...results)
+}
+
+export const fetchSleeperProjections = async (
+  season: string | number,
+  week: number,
+  seasonType: string = 'regular'
+): Promise<Record<string, SleeperProjectionStats>> => {
+  return requestJson('sleeper', `${SLEEPER_BASE_URL}/projections/nfl/${seasonType}/${season}/${week}`, {
+    description: `Sleeper projections for ${season}, week ${week}`
+  })
+}
+
+export const fetchSleeperLeague = async (leagueId: string): Promise<any> => {
+  return requestJson('sleeper', `${SLEEPER_BASE_URL}/league/${leagueId}`, {
+    description: `Sleeper league ${leagueId}`
+  })
 }
 
 // Helper function to find user's roster in a league by Sleeper user ID
@@ -248,7 +218,7 @@ export const findOpponentRoster = (
 ): SleeperRoster | null => {
   // Find user's matchup
   const userMatchup = matchups.find(matchup => matchup.roster_id === userRosterId)
-  if (!userMatchup) return null
+  if (!userMatchup || userMatchup.matchup_id === null) return null
 
   // Find opponent in same matchup
   const opponentMatchup = matchups.find(matchup => 
@@ -0,0 +1,65 @@
+import { PlayerLineup } from '@/types'
+
+// How tied I am to one NFL player across all my leagues this week
+export interface PlayerExposure {
+  playerId: string
+  name: string
+  position: string
+  team: string
+  // League names where I start the player, and where my opponent does
+  myLeagues: string[]
+  opponentLeagues: string[]
+  // Leagues I start the player in minus leagues I face them in
+  net: number
+  // Started by me and by an opponent, so their points partly cancel out
+  isHedged: boolean
+  // Live points for me minus live points for my opponents
+  netPoints: number
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+// Exposure per player from the combined lineup, biggest net impact first:
+// largest net league count, then largest net points, then name
+export const buildExposureReport = (lineups: PlayerLineup[]): PlayerExposure[] => {
+  const byPlayer = new Map<string, PlayerExposure>()
+
+  for (const lineup of lineups) {
+    let exposure = byPlayer.get(lineup.playerId)
+    if (!exposure) {
+      exposure = {
+        playerId: lineup.playerId,
+        name: lineup.name,
+        position: lineup.position,
+        team: lineup.team,
+        myLeagues: [],
+        opponentLeagues: [],
+        net: 0,
+        isHedged: false,
+        netPoints: 0
+      }
+      byPlayer.set(lineup.playerId, exposure)
+    }
+
+    const points = sum(lineup.leaguePoints || [])
+    if (lineup.isOpponent) {
+      exposure.opponentLeagues.push(...lineup.leagueNames)
+      exposure.netPoints -= points
+    } else {
+      exposure.myLeagues.push(...lineup.leagueNames)
+      exposure.netPoints += points
+    }
+  }
+
+  const report = Array.from(byPlayer.values()).map(exposure => ({
+    ...exposure,
+    net: exposure.myLeagues.length - exposure.opponentLeagues.length,
+    isHedged: exposure.myLeagues.length > 0 && exposure.opponentLeagues.length > 0
+  }))
+
+  return report.sort((a, b) =>
+    Math.abs(b.net) - Math.abs(a.net) ||
+    Math.abs(b.netPoints) - Math.abs(a.netPoints) ||
+    a.name.localeCompare(b.name)
+  )
+}
\ No newline at end of file
@@ -0,0 +1,221 @@
+// Shared HTTP client for the ESPN, Sleeper and app APIs: per-host concurrency
+// limits, timeouts, exponential-backoff retries, request deduplication and
+// typed errors.
+
+export type ApiService = 'espn' | 'sleeper' | 'app'
+
+export class ApiError extends Error {
+  service: ApiService
+  url: string
+  // HTTP status, or undefined for network errors and timeouts
+  status?: number
+  retryable: boolean
+
+  constructor(service: ApiService, url: string, message: string, status?: number, retryable = false) {
+    super(message)
+    this.name = 'ApiError'
+    this.service = service
+    this.url = url
+    this.status = status
+    this.retryable = retryable
+  }
+}
+
+export class SleeperApiError extends ApiError {
+  constructor(url: string, message: string, status?: number, retryable = false) {
+    super('sleeper', url, message, status, retryable)
+    this.name = 'SleeperApiError'
+  }
+}
+
+export class EspnApiError extends ApiError {
+  constructor(url: string, message: string, status?: number, retryable = false) {
+    super('espn', url, message, status, retryable)
+    this.name = 'EspnApiError'
+  }
+}
+
+const createApiError = (service: ApiService, url: string, message: string, status?: number, retryable = false) => {
+  if (service === 'sleeper') return new SleeperApiError(url, message, status, retryable)
+  if (service === 'espn') return new EspnApiError(url, message, status, retryable)
+  return new ApiError(service, url, message, status, retryable)
+}
+
+interface HostLimits {
+  maxConcurrent: number
+  // Minimum spacing between request starts
+  minInterval: number
+}
+
+// Sleeper asks clients to stay under 1000 calls per minute
+const HOST_LIMITS: Record<ApiService, HostLimits> = {
+  sleeper: { maxConcurrent: 4, minInterval: 75 },
+  espn: { maxConcurrent: 6, minInterval: 0 },
+  app: { maxConcurrent: 4, minInterval: 0 }
+}
+
+const DEFAULT_TIMEOUT = 10000 // 10 seconds
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY = 500
+const RETRY_MAX_DELAY = 8000
+
+export interface RequestOptions {
+  // Short description used in error messages, e.g. "Sleeper rosters"
+  description: string
+  headers?: Record<string, string>
+  timeout?: number
+  retries?: number
+  // Non-2xx statuses returned to the caller instead of throwing (e.g. 304)
+  acceptStatuses?: number[]
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Per-service concurrency gate
+const hostQueues = new Map<ApiService, { active: number, lastStart: number, waiting: Array<() => void> }>()
+
+const acquireSlot = async (service: ApiService) => {
+  let queue = hostQueues.get(service)
+  if (!queue) {
+    queue = { active: 0, lastStart: 0, waiting: [] }
+    hostQueues.set(service, queue)
+  }
+
+  const limits = HOST_LIMITS[service]
+  if (queue.active >= limits.maxConcurrent) {
+    // A finishing request hands its slot straight to the next waiter
+    await new Promise<void>(resolve => queue!.waiting.push(resolve))
+  } else {
+    queue.active++
+  }
+
+  const wait = queue.lastStart + limits.minInterval - Date.now()
+  queue.lastStart = Math.max(Date.now(), queue.lastStart + limits.minInterval)
+  if (wait > 0) {
+    await sleep(wait)
+  }
+}
+
+const releaseSlot = (service: ApiService) => {
+  const queue = hostQueues.get(service)
+  if (!queue) return
+
+  const next = queue.waiting.shift()
+  if (next) {
+    next()
+  } else {
+    queue.active--
+  }
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500
+
+const getRetryDelay = (attempt: number, response?: Response) => {
+  const retryAfter = Number(response?.headers.get('Retry-After'))
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, RETRY_MAX_DELAY)
+  }
+  const backoff = RETRY_BASE_DELAY * 2 ** attempt
+  return Math.min(backoff + Math.random() * backoff / 2, RETRY_MAX_DELAY)
+}
+
+export interface ApiResponse<T> {
+  response: Response
+  // Parsed JSON body of a 2xx response; undefined for accepted non-2xx statuses
+  data: T | undefined
+}
+
+// Single attempt with a timeout, holding one of the service's slots until the
+// body is read, so large downloads count against both
+const attemptRequest = async <T>(service: ApiService, url: string, options: RequestOptions): Promise<ApiResponse<T>> => {
+  await acquireSlot(service)
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? DEFAULT_TIMEOUT)
+
+  try {
+    let response: Response
+    try {
+      response = await fetch(url, { headers: options.headers, signal: controller.signal })
+    } catch (error: any) {
+      const reason = error?.name === 'AbortError' ? 'timed out' : 'network error'
+      throw createApiError(service, url, `${options.description} API request ${reason}`, undefined, true)
+    }
+    if (!response.ok) {
+      return { response, data: undefined }
+    }
+
+    try {
+      return { response, data: await response.json() as T }
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw createApiError(service, url, `${options.description} API request timed out`, undefined, true)
+      }
+      throw createApiError(service, url, `${options.description} API returned invalid JSON`, response.status)
+    }
+  } finally {
+    clearTimeout(timeoutId)
+    releaseSlot(service)
+  }
+}
+
+// Fetch JSON with limits, timeout and retries; throws a typed ApiError for failures
+export const request = async <T = unknown>(service: ApiService, url: string, options: RequestOptions): Promise<ApiResponse<T>> => {
+  const retries = options.retries ?? DEFAULT_RETRIES
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response | undefined
+    let error: ApiError
+
+    try {
+      const result = await attemptRequest<T>(service, url, options)
+      response = result.response
+      if (response.ok || options.acceptStatuses?.includes(response.status)) {
+        return result
+      }
+      error = createApiError(
+        service,
+        url,
+        `${options.description} API error: ${response.status}`,
+        response.status,
+        isRetryableStatus(response.status)
+      )
+    } catch (requestError) {
+      if (!(requestError instanceof ApiError)) throw requestError
+      error = requestError
+    }
+
+    if (!error.retryable || attempt >= retries) {
+      console.error(`Error fetching ${options.description}:`, error)
+      throw error
+    }
+    await sleep(getRetryDelay(attempt, response))
+  }
+}
+
+// Identical JSON requests in flight share one network call
+const inFlightRequests = new Map<string, Promise<any>>()
+
+export const requestJson = <T>(service: ApiService, url: string, options: RequestOptions): Promise<T> => {
+  const existing = inFlightRequests.get(url)
+  if (existing) return existing
+
+  const promise = request<T>(service, url, options)
+    .then(({ data }) => data as T)
+    .finally(() => inFlightRequests.delete(url))
+
+  inFlightRequests.set(url, promise)
+  return promise
+}
+
+// User-facing explanation of a failed request
+export const describeApiError = (error: unknown): string => {
+  if (error instanceof ApiError) {
+    const source = error.service === 'sleeper' ? 'Sleeper' : error.service === 'espn' ? 'ESPN' : 'The app server'
+    if (error.status === 429) return `${source} is rate limiting requests, try again in a minute`
+    if (error.status && error.status >= 500) return `${source} is having problems (${error.status}), try again shortly`
+    if (error.status === 404) return `${source} could not find the requested data (${error.message})`
+    if (!error.status) return `Could not reach ${source}: ${error.message}`
+    return error.message
+  }
+  return error instanceof Error ? error.message : String(error)
+}
\ No newline at end of file
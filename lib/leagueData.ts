@@ -0,0 +1,276 @@
+import { FantasyRound, LeagueMatchup, ReserveSlot, SleeperLeague, SleeperMatchup, SleeperRoster, SleeperUser, UserLeague } from '@/types'
+import {
+  fetchSleeperLeague,
+  fetchSleeperLeagueRosters,
+  fetchSleeperLeagueUsers,
+  fetchSleeperMatchups,
+  findOpponentRoster,
+  findUserRoster
+} from './api'
+import { LeagueLoadResult, LeagueSetupError, getLeagueName, loadLeagues } from './leagueLoading'
+import { getScoringKey } from './projections'
+import { getFantasyRound } from './weekResolution'
+
+// Shared league data service. League settings, rosters, users and matchups are
+// kept in one in-memory store keyed by league and week, so RedZoneView and
+// AllLeaguesView fetch each league once and both render from the same data.
+
+export interface LeagueWeekData {
+  leagueId: string
+  week: number
+  league: SleeperLeague
+  rosters: SleeperRoster[]
+  users: SleeperUser[]
+  matchups: SleeperMatchup[]
+  // Fantasy playoff round of the week, with the matchups of its earlier weeks
+  round: FantasyRound | null
+  earlierRoundMatchups: SleeperMatchup[][]
+  fetchedAt: number
+}
+
+// Non-starting roster players by slot
+export type RosterReserves = Record<ReserveSlot, string[]>
+
+// The user's and their opponent's side of a league week
+export interface LeagueWeekJoin {
+  userRoster: SleeperRoster
+  userMatchup: SleeperMatchup | null
+  userOwner: string
+  userStarters: string[]
+  opponentRoster: SleeperRoster | null
+  opponentMatchup: SleeperMatchup | null
+  opponentOwner: string | null
+  opponentStarters: string[]
+  userReserves: RosterReserves
+  opponentReserves: RosterReserves
+}
+
+interface LoadOptions {
+  // Refetch even when the stored data is still fresh
+  force?: boolean
+}
+
+// Stored league data younger than this is reused without refetching
+const LEAGUE_DATA_MAX_AGE = 60 * 1000 // 1 minute
+
+// Weeks kept in the store. Browsing past weeks would otherwise keep every league's
+// rosters, users and matchups for the rest of the session.
+const MAX_STORED_WEEKS = 3
+
+const store = new Map<string, LeagueWeekData>()
+const inFlight = new Map<string, Promise<LeagueWeekData>>()
+const listeners = new Set<() => void>()
+// Stored weeks, least recently used first
+const storedWeeks: number[] = []
+
+const getStoreKey = (leagueId: string, week: number) => `${leagueId}:${week}`
+
+// Mark a week as in use, evicting the least recently used weeks beyond the limit
+const touchWeek = (week: number) => {
+  const index = storedWeeks.indexOf(week)
+  if (index >= 0) storedWeeks.splice(index, 1)
+  storedWeeks.push(week)
+
+  while (storedWeeks.length > MAX_STORED_WEEKS) {
+    const evicted = storedWeeks.shift()
+    store.forEach((data, key) => {
+      if (data.week === evicted) store.delete(key)
+    })
+  }
+}
+
+const notify = () => listeners.forEach(listener => listener())
+
+export const getLeagueWeekData = (leagueId: string, week: number): LeagueWeekData | undefined => {
+  return store.get(getStoreKey(leagueId, week))
+}
+
+// Listen for store changes; returns the unsubscribe function
+export const subscribeLeagueData = (listener: () => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const fetchLeagueWeek = async (league: UserLeague, week: number): Promise<LeagueWeekData> => {
+  const leagueId = league.sleeper_league_id
+  if (!league.sleeper_user_id) {
+    throw new LeagueSetupError('No Sleeper user selected, please re-add this league')
+  }
+
+  const [leagueData, rosters, users, matchups] = await Promise.all([
+    fetchSleeperLeague(leagueId),
+    fetchSleeperLeagueRosters(leagueId),
+    fetchSleeperLeagueUsers(leagueId),
+    fetchSleeperMatchups(leagueId, week)
+  ])
+
+  if (!findUserRoster(rosters, league.sleeper_user_id)) {
+    throw new LeagueSetupError('Your roster was not found in this league')
+  }
+
+  // Two-week playoff rounds are scored over both weeks
+  const round = getFantasyRound(leagueData.settings, week)
+  const earlierWeeks = round ? round.weeks.filter(roundWeek => roundWeek < week) : []
+  const earlierRoundMatchups = await Promise.all(earlierWeeks.map(earlierWeek =>
+    store.get(getStoreKey(leagueId, earlierWeek))?.matchups || fetchSleeperMatchups(leagueId, earlierWeek)
+  ))
+
+  const data = {
+    leagueId,
+    week,
+    league: leagueData,
+    rosters,
+    users,
+    matchups,
+    round,
+    earlierRoundMatchups,
+    fetchedAt: Date.now()
+  }
+  store.set(getStoreKey(leagueId, week), data)
+  return data
+}
+
+// Load one league week, reusing fresh stored data and sharing in-flight requests
+export const loadLeagueWeek = (league: UserLeague, week: number, options: LoadOptions = {}): Promise<LeagueWeekData> => {
+  const key = getStoreKey(league.sleeper_league_id, week)
+  touchWeek(week)
+
+  const stored = store.get(key)
+  if (!options.force && stored && Date.now() - stored.fetchedAt < LEAGUE_DATA_MAX_AGE) {
+    return Promise.resolve(stored)
+  }
+
+  const existing = inFlight.get(key)
+  if (existing) return existing
+
+  const promise = fetchLeagueWeek(league, week).finally(() => inFlight.delete(key))
+  inFlight.set(key, promise)
+  return promise
+}
+
+// Load several leagues concurrently; subscribers are notified once when all have settled
+export const loadLeaguesWeek = async (
+  leagues: UserLeague[],
+  week: number,
+  options: LoadOptions = {}
+): Promise<LeagueLoadResult<LeagueWeekData>[]> => {
+  const results = await loadLeagues(leagues, league => loadLeagueWeek(league, week, options))
+  notify()
+  return results
+}
+
+// Apply freshly polled matchups without refetching league settings, rosters or users
+export const updateLeagueMatchups = (week: number, matchupsByLeague: Map<string, SleeperMatchup[]>) => {
+  let changed = false
+
+  matchupsByLeague.forEach((matchups, leagueId) => {
+    const key = getStoreKey(leagueId, week)
+    const stored = store.get(key)
+    if (!stored || JSON.stringify(stored.matchups) === JSON.stringify(matchups)) return
+
+    store.set(key, { ...stored, matchups })
+    changed = true
+  })
+
+  // Polled weeks are in use even when nothing changed
+  if (matchupsByLeague.size > 0) touchWeek(week)
+  if (changed) notify()
+}
+
+// Bench, IR and taxi players of a roster; the bench is everyone else not starting
+export const getRosterReserves = (roster: SleeperRoster | null, starters: string[]): RosterReserves => {
+  const reserve = roster?.reserve || []
+  const taxi = roster?.taxi || []
+  const notBench = new Set([...starters, ...reserve, ...taxi])
+
+  return {
+    bench: (roster?.players || []).filter(playerId => !notBench.has(playerId)),
+    reserve,
+    taxi
+  }
+}
+
+// Join the user's roster with their opponent's for a league week
+export const joinLeagueWeek = (league: UserLeague, data: LeagueWeekData): LeagueWeekJoin | null => {
+  if (!league.sleeper_user_id) return null
+
+  const { rosters, users, matchups } = data
+  const userRoster = findUserRoster(rosters, league.sleeper_user_id)
+  if (!userRoster) return null
+
+  // Find user's matchup to see if it has different starters
+  const userMatchup = matchups.find(m => m.roster_id === userRoster.roster_id) || null
+
+  // Find opponent's roster and matchup; teams without a game have no matchup ID
+  const opponentRoster = findOpponentRoster(rosters, matchups, userRoster.roster_id)
+  const opponentMatchup = userMatchup?.matchup_id != null ? matchups.find(m =>
+    m.matchup_id === userMatchup.matchup_id && m.roster_id !== userRoster.roster_id
+  ) || null : null
+
+  // Get owner names
+  const userOwner = users.find(u => u.user_id === userRoster.owner_id)?.display_name || 'You'
+  const opponentOwner = opponentRoster ?
+    users.find(u => u.user_id === opponentRoster.owner_id)?.display_name || 'Opponent' : null
+
+  // Always use matchup starters when available (more current than roster)
+  const userStarters = userMatchup?.starters || userRoster.starters || []
+  const opponentStarters = opponentMatchup?.starters || opponentRoster?.starters || []
+
+  return {
+    userRoster,
+    userMatchup,
+    userOwner,
+    userStarters,
+    opponentRoster,
+    opponentMatchup,
+    opponentOwner,
+    opponentStarters,
+    userReserves: getRosterReserves(userRoster, userStarters),
+    opponentReserves: getRosterReserves(opponentRoster, opponentStarters)
+  }
+}
+
+// Points a roster scored in the earlier weeks of a multi-week playoff round
+const getCarriedPoints = (data: LeagueWeekData, rosterId: number) =>
+  data.earlierRoundMatchups.reduce((total, matchups) =>
+    total + (matchups.find(m => m.roster_id === rosterId)?.points || 0), 0)
+
+// Head-to-head matchup with scores for a league week; multi-week playoff
+// rounds include the points from the round's earlier weeks
+export const buildLeagueMatchup = (league: UserLeague, data: LeagueWeekData): LeagueMatchup | null => {
+  const join = joinLeagueWeek(league, data)
+  if (!join) return null
+
+  const { userRoster, userMatchup, opponentRoster, opponentMatchup } = join
+  const matchupId = userMatchup?.matchup_id
+  if (!userMatchup || matchupId == null) return null
+
+  const userCarried = getCarriedPoints(data, userRoster.roster_id)
+  const opponentCarried = opponentMatchup ? getCarriedPoints(data, opponentMatchup.roster_id) : 0
+
+  return {
+    leagueId: league.sleeper_league_id,
+    leagueName: getLeagueName(league),
+    matchupId,
+    scoringKey: getScoringKey(data.league.scoring_settings),
+    round: data.round || undefined,
+    userRoster: {
+      rosterId: userRoster.roster_id,
+      owner: join.userOwner,
+      points: (userMatchup.points || 0) + userCarried,
+      starters: join.userStarters,
+      playersPoints: userMatchup.players_points || {},
+      carriedPoints: userCarried || undefined
+    },
+    opponentRoster: opponentMatchup ? {
+      rosterId: opponentRoster?.roster_id || opponentMatchup.roster_id,
+      owner: join.opponentOwner || 'Opponent',
+      points: (opponentMatchup.points || 0) + opponentCarried,
+      starters: join.opponentStarters,
+      playersPoints: opponentMatchup.players_points || {},
+      carriedPoints: opponentCarried || undefined
+    } : null
+  }
+}
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { UserLeague } from '@/types'
+import { describeApiError } from './httpClient'
+
+// Leagues loaded at the same time; the HTTP client further limits Sleeper requests
+export const LEAGUE_LOAD_CONCURRENCY = 4
+
+export type LeagueLoadStatus = 'loading' | 'loaded' | 'stale' | 'failed'
+
+export interface LeagueLoadState {
+  leagueId: string
+  leagueName: string
+  status: LeagueLoadStatus
+  // Reason for the last failure ('stale' and 'failed' only)
+  error?: string
+  updatedAt?: number
+}
+
+export type LeagueLoadResult<T> =
+  | { league: UserLeague, ok: true, value: T }
+  | { league: UserLeague, ok: false, error: unknown }
+
+// Thrown by league loaders for leagues that cannot be shown, e.g. without a selected Sleeper user
+export class LeagueSetupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LeagueSetupError'
+  }
+}
+
+export const getLeagueName = (league: UserLeague) => league.custom_nickname || league.league_name || 'League'
+
+// Run load for every league with at most `concurrency` in flight. One failing
+// league never affects the others; each result carries its own success or failure.
+export const loadLeagues = async <T>(
+  leagues: UserLeague[],
+  load: (league: UserLeague) => Promise<T>,
+  concurrency: number = LEAGUE_LOAD_CONCURRENCY
+): Promise<LeagueLoadResult<T>[]> => {
+  const results: LeagueLoadResult<T>[] = new Array(leagues.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < leagues.length) {
+      const index = nextIndex++
+      const league = leagues[index]
+      try {
+        results[index] = { league, ok: true, value: await load(league) }
+      } catch (error) {
+        console.warn(`Failed to load league ${league.sleeper_league_id}:`, error)
+        results[index] = { league, ok: false, error }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, leagues.length) }, worker))
+  return results
+}
+
+// Mark leagues as loading before a (re)load starts
+export const markLeaguesLoading = (
+  states: LeagueLoadState[],
+  leagues: UserLeague[]
+): LeagueLoadState[] => {
+  const byId = new Map(states.map(state => [state.leagueId, state]))
+  for (const league of leagues) {
+    const previous = byId.get(league.sleeper_league_id)
+    byId.set(league.sleeper_league_id, {
+      ...previous,
+      leagueId: league.sleeper_league_id,
+      leagueName: getLeagueName(league),
+      status: 'loading'
+    })
+  }
+  return Array.from(byId.values())
+}
+
+// Fold load results into the per-league status list. Failed leagues that still
+// have data from an earlier load are shown as stale rather than failed.
+export const applyLeagueResults = <T>(
+  states: LeagueLoadState[],
+  results: LeagueLoadResult<T>[],
+  hasPreviousData: (leagueId: string) => boolean
+): LeagueLoadState[] => {
+  const byId = new Map(states.map(state => [state.leagueId, state]))
+  const now = Date.now()
+
+  for (const result of results) {
+    const leagueId = result.league.sleeper_league_id
+    const previous = byId.get(leagueId)
+
+    if (result.ok) {
+      byId.set(leagueId, {
+        leagueId,
+        leagueName: getLeagueName(result.league),
+        status: 'loaded',
+        updatedAt: now
+      })
+    } else {
+      byId.set(leagueId, {
+        leagueId,
+        leagueName: getLeagueName(result.league),
+        status: hasPreviousData(leagueId) ? 'stale' : 'failed',
+        error: describeApiError(result.error),
+        updatedAt: previous?.updatedAt
+      })
+    }
+  }
+
+  return Array.from(byId.values())
+}
+
+// Drop statuses for leagues the user no longer has
+export const pruneLeagueStates = (states: LeagueLoadState[], leagues: UserLeague[]) => {
+  const leagueIds = new Set(leagues.map(league => league.sleeper_league_id))
+  return states.filter(state => leagueIds.has(state.leagueId))
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { ESPNGame, LeagueMatchupProjection, PlayerProjection } from '@/types'
+import { getWinProbability } from './winProbability'
+import { normalizeTeam } from './teams'
+
+// Projected points a player has yet to score, which shrinks with the game clock
+const getRemainingPoints = (player: PlayerProjection) => player.projectedPoints - player.points
+
+// How much one NFL game can still swing the user's combined outcome across leagues.
+// Per league this is the net remaining projection of my starters minus opponent
+// starters in the game, weighted by how close that league matchup still is
+// (a 50/50 matchup counts fully, a locked one not at all).
+export const getGameLeverage = (game: ESPNGame, leagueProjections: LeagueMatchupProjection[]): number => {
+  const teams = new Set((game.competitions[0]?.competitors || []).map(c => normalizeTeam(c.team.abbreviation)))
+  if (teams.size === 0) return 0
+
+  return leagueProjections.reduce((total, league) => {
+    const myRemaining = league.userRoster.players
+      .filter(player => teams.has(player.team))
+      .reduce((sum, player) => sum + getRemainingPoints(player), 0)
+    const opponentRemaining = league.opponentRoster.players
+      .filter(player => teams.has(player.team))
+      .reduce((sum, player) => sum + getRemainingPoints(player), 0)
+
+    const { probability } = getWinProbability(league)
+    const closeness = 4 * probability * (1 - probability)
+
+    return total + Math.abs(myRemaining - opponentRemaining) * closeness
+  }, 0)
+}
+
+// Leverage for every game, keyed by ESPN game ID
+export const getLeverageByGame = (
+  games: ESPNGame[],
+  leagueProjections: LeagueMatchupProjection[]
+): Map<string, number> => {
+  return new Map(games.map(game => [game.id, getGameLeverage(game, leagueProjections)]))
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { ESPNGame, SleeperPlayers, UserLeague } from '@/types'
+import { getPlayerName, isEmptySlot } from './players'
+import { getLeagueWeekData, joinLeagueWeek } from './leagueData'
+import { getLeagueName } from './leagueLoading'
+import { buildTeamGameMap } from './projections'
+import { getSlotLabel, getStarterSlots } from './rosterSlots'
+
+// Lineup doctor: starters who will not play this week, found before games lock
+
+export type LineupIssueKind = 'empty' | 'bye' | 'injury'
+
+export interface LineupIssue {
+  kind: LineupIssueKind
+  // Roster position of the starting slot, e.g. 'RB' or 'FLEX'
+  slot: string
+  playerId?: string
+  name?: string
+  team?: string
+  injuryStatus?: string
+  // Kickoff of the player's game (ISO date); empty slots and byes have none
+  kickoff: string | null
+}
+
+export interface LeagueCheckup {
+  leagueId: string
+  leagueName: string
+  issues: LineupIssue[]
+  // Earliest kickoff among the league's starters, when its first players lock
+  kickoff: string | null
+}
+
+// Injury designations that mean a starter will (very likely) not play: ruled out,
+// on injured reserve, doubtful, on the PUP list or suspended
+export const DOCTOR_INJURY_STATUSES = ['Out', 'IR', 'Doubtful', 'PUP', 'Sus']
+
+// Issues without a kickoff come first, since they can be fixed any time before the first lock
+const compareKickoff = (a: string | null, b: string | null) =>
+  a === b ? 0 : a === null ? -1 : b === null ? 1 : a.localeCompare(b)
+
+// Check my starters in one league; players whose game has kicked off are locked and skipped
+const checkLeague = (
+  league: UserLeague,
+  week: number,
+  players: SleeperPlayers,
+  teamGames: Map<string, ESPNGame>
+): LeagueCheckup | null => {
+  const data = getLeagueWeekData(league.sleeper_league_id, week)
+  const join = data && joinLeagueWeek(league, data)
+  if (!data || !join) return null
+
+  const issues: LineupIssue[] = []
+  const kickoffs: string[] = []
+  const slots = getStarterSlots(data.league.roster_positions)
+
+  join.userStarters.forEach((playerId, index) => {
+    const slot = slots[index] ? getSlotLabel(slots[index]) : 'starter'
+
+    if (isEmptySlot(playerId)) {
+      issues.push({ kind: 'empty', slot, kickoff: null })
+      return
+    }
+
+    // Players missing from the database are reported by the lineup views instead
+    const player = players[playerId]
+    if (!player) return
+
+    const team = player.team || 'FA'
+    const game = teamGames.get(team)
+    const name = getPlayerName(player)
+
+    if (!game) {
+      issues.push({ kind: 'bye', slot, playerId, name, team, kickoff: null })
+      return
+    }
+
+    kickoffs.push(game.date)
+    if (game.competitions[0]?.status.type.state !== 'pre') return
+
+    const injuryStatus = player.injury_status
+    if (injuryStatus && DOCTOR_INJURY_STATUSES.includes(injuryStatus)) {
+      issues.push({ kind: 'injury', slot, playerId, name, team, injuryStatus, kickoff: game.date })
+    }
+  })
+
+  return {
+    leagueId: league.sleeper_league_id,
+    leagueName: getLeagueName(league),
+    issues: issues.sort((a, b) => compareKickoff(a.kickoff, b.kickoff)),
+    kickoff: kickoffs.sort()[0] || null
+  }
+}
+
+// Check every league with data for the week, ordered by when each league's first starter kicks off
+export const checkLineups = (
+  leagues: UserLeague[],
+  week: number,
+  players: SleeperPlayers,
+  games: ESPNGame[]
+): LeagueCheckup[] => {
+  const teamGames = buildTeamGameMap(games)
+
+  return leagues
+    .map(league => checkLeague(league, week, players, teamGames))
+    .filter((checkup): checkup is LeagueCheckup => !!checkup)
+    .sort((a, b) => compareKickoff(a.kickoff, b.kickoff) || a.leagueName.localeCompare(b.leagueName))
+}
\ No newline at end of file
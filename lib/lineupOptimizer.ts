@@ -0,0 +1,242 @@
+import { ESPNGame, SleeperPlayers, SleeperProjectionStats, UserLeague } from '@/types'
+import { getPlayerName, isEmptySlot } from './players'
+import { getLeagueWeekData, joinLeagueWeek } from './leagueData'
+import { getLeagueName } from './leagueLoading'
+import { buildTeamGameMap, getScoringKey, projectPlayer } from './projections'
+import { getSlotLabel, getSlotPositions, getStarterSlots } from './rosterSlots'
+
+// Start/sit optimizer: the best legal lineup per league from projections,
+// keeping players whose games have kicked off where they are
+
+export interface OptimizerPlayer {
+  playerId: string
+  name: string
+  position: string
+  team: string
+  // Points scored so far plus the projection for the rest of the game
+  projectedPoints: number
+}
+
+export interface LineupSwap {
+  // Label of the slot the started player moves into
+  slot: string
+  start: OptimizerPlayer
+  // Starter to bench; null when the slot is empty
+  bench: OptimizerPlayer | null
+  gain: number
+}
+
+export interface LeagueLineupSuggestion {
+  leagueId: string
+  leagueName: string
+  swaps: LineupSwap[]
+  // Projected points gained by making every swap
+  projectedGain: number
+}
+
+// Gains smaller than this are rounding noise, not a better lineup
+const MIN_GAIN = 0.05
+
+// A player's game has kicked off once ESPN no longer reports it as scheduled
+const isLocked = (team: string, teamGames: Map<string, ESPNGame>) => {
+  const state = teamGames.get(team)?.competitions[0]?.status.type.state
+  return !!state && state !== 'pre'
+}
+
+const canPlaySlot = (slot: string, positions: string[]) =>
+  getSlotPositions(slot).some(position => positions.includes(position))
+
+interface Candidate {
+  player: OptimizerPlayer
+  // Positions the player is eligible at
+  positions: string[]
+  locked: boolean
+}
+
+export interface SlotCandidate {
+  positions: string[]
+  // Value of starting the player, usually the projected points
+  weight: number
+}
+
+// Filling a slot outweighs any projection, so no slot is left empty for a higher total
+const FILL_WEIGHT = 10000
+// Cost of putting a player in a slot they are not eligible for
+const INELIGIBLE_COST = 1e9
+// Current starters win ties, so equal projections do not suggest swaps
+const STARTER_TIE_BREAK = 1e-6
+
+// Best legal assignment of candidates to slots: as many slots filled as possible,
+// then the highest total weight. Returns the candidate index per slot, -1 when the
+// slot stays empty. Solved exactly with the Hungarian algorithm, giving every slot
+// an extra "empty" column; a greedy fill can block a flex slot (e.g. a WR in
+// WRRB_FLEX when only a TE is left for REC_FLEX).
+export const assignSlots = (slots: string[], candidates: SlotCandidate[]): number[] => {
+  const rows = slots.length
+  const columns = candidates.length + rows
+  // Cost of each slot/column pair; columns past the candidates leave the slot empty
+  const cost = slots.map(slot => Array.from({ length: columns }, (_, column) => {
+    const candidate = candidates[column]
+    if (!candidate) return 0
+    return canPlaySlot(slot, candidate.positions) ? -(FILL_WEIGHT + candidate.weight) : INELIGIBLE_COST
+  }))
+
+  // 1-based potentials and matching, index 0 is the algorithm's sentinel
+  const rowPotential = new Array(rows + 1).fill(0)
+  const columnPotential = new Array(columns + 1).fill(0)
+  const columnRow = new Array(columns + 1).fill(0)
+  const previousColumn = new Array(columns + 1).fill(0)
+
+  for (let row = 1; row <= rows; row++) {
+    columnRow[0] = row
+    let column = 0
+    const minSlack = new Array(columns + 1).fill(Infinity)
+    const used = new Array(columns + 1).fill(false)
+
+    // Grow alternating paths until one reaches an unmatched column
+    do {
+      used[column] = true
+      const currentRow = columnRow[column]
+      let delta = Infinity
+      let nextColumn = 0
+      for (let j = 1; j <= columns; j++) {
+        if (used[j]) continue
+        const slack = cost[currentRow - 1][j - 1] - rowPotential[currentRow] - columnPotential[j]
+        if (slack < minSlack[j]) {
+          minSlack[j] = slack
+          previousColumn[j] = column
+        }
+        if (minSlack[j] < delta) {
+          delta = minSlack[j]
+          nextColumn = j
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (used[j]) {
+          rowPotential[columnRow[j]] += delta
+          columnPotential[j] -= delta
+        } else {
+          minSlack[j] -= delta
+        }
+      }
+      column = nextColumn
+    } while (columnRow[column] !== 0)
+
+    // Flip the matching along the path
+    do {
+      const nextColumn = previousColumn[column]
+      columnRow[column] = columnRow[nextColumn]
+      column = nextColumn
+    } while (column !== 0)
+  }
+
+  const assignment = new Array(rows).fill(-1)
+  for (let column = 1; column <= candidates.length; column++) {
+    const row = columnRow[column]
+    if (row && cost[row - 1][column - 1] < INELIGIBLE_COST) assignment[row - 1] = column - 1
+  }
+  return assignment
+}
+
+// Optimize one league. Locked starters keep their slot and locked bench players
+// stay benched; the remaining slots get the legal lineup with the most projected points.
+const optimizeLeague = (
+  league: UserLeague,
+  week: number,
+  players: SleeperPlayers,
+  projections: Record<string, SleeperProjectionStats>,
+  teamGames: Map<string, ESPNGame>
+): LeagueLineupSuggestion | null => {
+  const data = getLeagueWeekData(league.sleeper_league_id, week)
+  const join = data && joinLeagueWeek(league, data)
+  if (!data || !join) return null
+
+  const slots = getStarterSlots(data.league.roster_positions)
+  if (slots.length === 0) return null
+
+  const scoringKey = getScoringKey(data.league.scoring_settings)
+  const playersPoints = join.userMatchup?.players_points || {}
+
+  const candidates = new Map<string, Candidate>()
+  for (const playerId of [...join.userStarters, ...join.userReserves.bench]) {
+    const player = players[playerId]
+    if (isEmptySlot(playerId) || !player) continue
+
+    const projection = projectPlayer(playerId, playersPoints[playerId] || 0, players, projections, teamGames, scoringKey)
+    candidates.set(playerId, {
+      player: {
+        playerId,
+        name: getPlayerName(player),
+        position: projection.position,
+        team: projection.team,
+        projectedPoints: projection.projectedPoints
+      },
+      positions: player.fantasy_positions?.length ? player.fantasy_positions : [projection.position],
+      locked: isLocked(projection.team, teamGames)
+    })
+  }
+
+  // Current starter per slot, and the optimized one
+  const current = slots.map((_, index) => candidates.get(join.userStarters[index]) || null)
+  const optimal = current.map(candidate => candidate?.locked ? candidate : null)
+
+  const currentIds = new Set(current.map(candidate => candidate?.player.playerId))
+  const available = Array.from(candidates.values()).filter(candidate => !candidate.locked)
+  const openSlots = slots
+    .map((slot, index) => ({ slot, index }))
+    .filter(({ index }) => !optimal[index])
+
+  const assignment = assignSlots(openSlots.map(({ slot }) => slot), available.map(candidate => ({
+    positions: candidate.positions,
+    weight: candidate.player.projectedPoints + (currentIds.has(candidate.player.playerId) ? STARTER_TIE_BREAK : 0)
+  })))
+  assignment.forEach((candidateIndex, openIndex) => {
+    if (candidateIndex >= 0) optimal[openSlots[openIndex].index] = available[candidateIndex]
+  })
+
+  // Pair each player to start with a starter to bench, preferring the one in the same slot
+  const optimalIds = new Set(optimal.map(candidate => candidate?.player.playerId))
+  const toBench = current
+    .filter((candidate): candidate is Candidate => !!candidate && !optimalIds.has(candidate.player.playerId))
+    .map(candidate => candidate.player)
+
+  const swaps: LineupSwap[] = []
+  optimal.forEach((candidate, index) => {
+    if (!candidate || currentIds.has(candidate.player.playerId)) return
+
+    const sameSlot = toBench.findIndex(player => player.playerId === current[index]?.player.playerId)
+    const bench = toBench.splice(sameSlot >= 0 ? sameSlot : 0, 1)[0] || null
+
+    swaps.push({
+      slot: getSlotLabel(slots[index]),
+      start: candidate.player,
+      bench,
+      gain: candidate.player.projectedPoints - (bench?.projectedPoints || 0)
+    })
+  })
+
+  const projectedGain = swaps.reduce((total, swap) => total + swap.gain, 0)
+
+  return {
+    leagueId: league.sleeper_league_id,
+    leagueName: getLeagueName(league),
+    swaps: projectedGain >= MIN_GAIN ? swaps.sort((a, b) => b.gain - a.gain) : [],
+    projectedGain: projectedGain >= MIN_GAIN ? projectedGain : 0
+  }
+}
+
+// Suggested swaps for every league with data for the week, biggest gain first
+export const optimizeLineups = (
+  leagues: UserLeague[],
+  week: number,
+  players: SleeperPlayers,
+  projections: Record<string, SleeperProjectionStats>,
+  games: ESPNGame[]
+): LeagueLineupSuggestion[] => {
+  const teamGames = buildTeamGameMap(games)
+
+  return leagues
+    .map(league => optimizeLeague(league, week, players, projections, teamGames))
+    .filter((suggestion): suggestion is LeagueLineupSuggestion => !!suggestion)
+    .sort((a, b) => b.projectedGain - a.projectedGain || a.leagueName.localeCompare(b.leagueName))
+}
\ No newline at end of file
@@ -0,0 +1,175 @@
+import { PlayerLineup, ReserveSlot, SleeperPlayer, SleeperPlayers, UserLeague } from '@/types'
+import { SleeperPlayerError, getPlayerName, isEmptySlot, resolvePlayer } from './players'
+import { getLeagueWeekData, joinLeagueWeek } from './leagueData'
+import { getLeagueName } from './leagueLoading'
+
+// Combined lineup across leagues: every starter on my side and my opponents'
+// side, with the leagues each player starts in. Built from the shared league data store.
+
+interface LineupOptions {
+  // Also include my bench, IR and taxi players
+  includeReserves?: boolean
+}
+
+const RESERVE_SLOTS: ReserveSlot[] = ['bench', 'reserve', 'taxi']
+
+// Add a roster's starters (or one of its reserve slots) to the combined lineup, merging players
+// in several leagues. Players whose record is missing or invalid are collected in playerErrors.
+const addStartersToLineup = (
+  allLineups: PlayerLineup[],
+  playerErrors: SleeperPlayerError[],
+  starters: string[],
+  players: SleeperPlayers,
+  league: UserLeague,
+  isOpponent: boolean,
+  playersPoints: Record<string, number> = {},
+  slot?: ReserveSlot
+) => {
+  const leagueName = getLeagueName(league)
+
+  for (const playerId of starters) {
+    if (isEmptySlot(playerId)) continue
+
+    let player: SleeperPlayer
+    try {
+      player = resolvePlayer(players, playerId, leagueName)
+    } catch (error) {
+      if (!(error instanceof SleeperPlayerError)) throw error
+      playerErrors.push(error)
+      continue
+    }
+
+    const playerData = {
+      playerId,
+      name: getPlayerName(player),
+      position: player.position || 'N/A',
+      team: player.team || 'FA',
+      jerseyNumber: player.number?.toString() || '',
+      leagueId: league.sleeper_league_id,
+      leagueName,
+      points: playersPoints[playerId] || 0,
+      isOpponent,
+      ...(slot && { slot })
+    }
+
+    // Check if player already exists in lineup
+    const existingPlayerIndex = allLineups.findIndex(p =>
+      p.playerId === playerId && p.isOpponent === isOpponent && p.team === playerData.team && p.slot === slot
+    )
+
+    if (existingPlayerIndex >= 0) {
+      // Add league to existing player
+      allLineups[existingPlayerIndex].leagueIds.push(playerData.leagueId)
+      allLineups[existingPlayerIndex].leagueNames.push(playerData.leagueName)
+      allLineups[existingPlayerIndex].leaguePoints.push(playerData.points)
+    } else {
+      // Add new player
+      const { leagueId, leagueName, points, ...lineupData } = playerData
+      allLineups.push({
+        ...lineupData,
+        leagueIds: [leagueId],
+        leagueNames: [leagueName],
+        leaguePoints: [points]
+      })
+    }
+  }
+}
+
+// Every player ID the combined lineup needs, so only those players are fetched
+export const getLineupPlayerIds = (leagues: UserLeague[], week: number, options: LineupOptions = {}): string[] => {
+  const playerIds = new Set<string>()
+
+  for (const league of leagues) {
+    const data = getLeagueWeekData(league.sleeper_league_id, week)
+    const join = data && joinLeagueWeek(league, data)
+    if (!join) continue
+
+    join.userStarters.forEach(id => playerIds.add(id))
+    join.opponentStarters.forEach(id => playerIds.add(id))
+    if (options.includeReserves) {
+      RESERVE_SLOTS.forEach(slot => join.userReserves[slot].forEach(id => playerIds.add(id)))
+    }
+  }
+
+  return Array.from(playerIds).filter(id => !isEmptySlot(id))
+}
+
+// Build the combined my-players / opponent-players lineup across all leagues
+export const buildPlayerLineups = (
+  leagues: UserLeague[],
+  week: number,
+  players: SleeperPlayers,
+  options: LineupOptions = {}
+): { lineups: PlayerLineup[], playerErrors: SleeperPlayerError[] } => {
+  const allLineups: PlayerLineup[] = []
+  const playerErrors: SleeperPlayerError[] = []
+
+  for (const league of leagues) {
+    const data = getLeagueWeekData(league.sleeper_league_id, week)
+    const join = data && joinLeagueWeek(league, data)
+    if (!join) continue
+
+    addStartersToLineup(allLineups, playerErrors, join.userStarters, players, league, false, join.userMatchup?.players_points)
+    addStartersToLineup(allLineups, playerErrors, join.opponentStarters, players, league, true, join.opponentMatchup?.players_points)
+
+    if (options.includeReserves) {
+      for (const slot of RESERVE_SLOTS) {
+        addStartersToLineup(allLineups, playerErrors, join.userReserves[slot], players, league, false, join.userMatchup?.players_points, slot)
+      }
+    }
+  }
+
+  return { lineups: allLineups, playerErrors }
+}
+
+// A player with their live points in one league
+export interface ScoredPlayer {
+  playerId: string
+  name: string
+  position: string
+  points: number
+}
+
+// Bench players outscoring the lowest-scoring starter at their position, mapped to that starter
+export const findOutscoringBench = (starters: ScoredPlayer[], bench: ScoredPlayer[]): Map<string, ScoredPlayer> => {
+  const outscoring = new Map<string, ScoredPlayer>()
+
+  for (const player of bench) {
+    const lowest = starters
+      .filter(starter => starter.position === player.position)
+      .reduce<ScoredPlayer | null>((low, starter) => !low || starter.points < low.points ? starter : low, null)
+
+    if (lowest && player.points > lowest.points) outscoring.set(player.playerId, lowest)
+  }
+
+  return outscoring
+}
+
+// Same check over the combined lineup, league by league: my bench player ID → the
+// starters they outscore, with the league each starter is in
+export const getOutscoringBench = (lineups: PlayerLineup[]): Map<string, { leagueName: string, starter: ScoredPlayer }[]> => {
+  const outscoring = new Map<string, { leagueName: string, starter: ScoredPlayer }[]>()
+  const leagueNames = new Map<string, string>()
+  const starters = new Map<string, ScoredPlayer[]>()
+  const bench = new Map<string, ScoredPlayer[]>()
+
+  for (const lineup of lineups) {
+    if (lineup.isOpponent || (lineup.slot && lineup.slot !== 'bench')) continue
+
+    const byLeague = lineup.slot ? bench : starters
+    lineup.leagueIds.forEach((leagueId, index) => {
+      leagueNames.set(leagueId, lineup.leagueNames[index])
+      const scored = { playerId: lineup.playerId, name: lineup.name, position: lineup.position, points: lineup.leaguePoints[index] || 0 }
+      byLeague.set(leagueId, [...(byLeague.get(leagueId) || []), scored])
+    })
+  }
+
+  bench.forEach((benchPlayers, leagueId) => {
+    findOutscoringBench(starters.get(leagueId) || [], benchPlayers).forEach((starter, playerId) => {
+      const leagueName = leagueNames.get(leagueId) || 'League'
+      outscoring.set(playerId, [...(outscoring.get(playerId) || []), { leagueName, starter }])
+    })
+  })
+
+  return outscoring
+}
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { ESPNGame, ESPNPlay, ESPNSummary, PlayerLineup, PlayEvent, PlayEventKind, PlayInvolvement } from '@/types'
+import { normalizeTeam } from './teams'
+
+// Gains of at least this many yards count as big plays
+const BIG_PLAY_YARDS = 20
+
+export const PLAY_EVENT_LABELS: Record<PlayEventKind, string> = {
+  touchdown: 'Touchdown',
+  field_goal: 'Field Goal',
+  turnover: 'Turnover',
+  big_play: 'Big Play'
+}
+
+const TURNOVER_PATTERN = /interception|fumble recovery \(opponent\)|sack opp fumble|fumble return/i
+const OFFENSIVE_PLAY_PATTERN = /pass|rush|reception/i
+const DEFENSIVE_SCORE_PATTERN = /interception|fumble|punt return|kickoff return|blocked/i
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// ESPN play-by-play abbreviates names ("T.Kelce") while scoring plays spell them out
+const mentionsPlayer = (text: string, player: PlayerLineup): boolean => {
+  const [firstName, ...rest] = player.name.split(' ')
+  const lastName = rest.join(' ')
+  if (!firstName || !lastName) return false
+
+  const patterns = [
+    escapeRegExp(player.name),
+    `${escapeRegExp(firstName[0])}\\.\\s?${escapeRegExp(lastName)}`
+  ]
+  // Lookarounds rather than \b, which never matches after a name ending in a period ("Harrison Jr.")
+  return patterns.some(pattern => new RegExp(`(?<!\\w)${pattern}(?!\\w)`, 'i').test(text))
+}
+
+const getTeamAbbreviations = (game: ESPNGame): Map<string, string> => {
+  return new Map((game.competitions[0]?.competitors || []).map(c => [c.team.id, normalizeTeam(c.team.abbreviation)]))
+}
+
+const getScoringKind = (play: ESPNPlay & { scoringType?: { name: string } }): PlayEventKind | null => {
+  const abbreviation = play.type?.abbreviation?.toUpperCase()
+  const scoringType = play.scoringType?.name?.toLowerCase()
+  if (abbreviation === 'TD' || scoringType === 'touchdown') return 'touchdown'
+  if (abbreviation === 'FG' || scoringType === 'field-goal') return 'field_goal'
+  return null
+}
+
+const getInvolvements = (
+  kind: PlayEventKind,
+  text: string,
+  offenseTeam: string,
+  gameTeams: string[],
+  lineups: PlayerLineup[]
+): PlayInvolvement[] => {
+  const defenseTeam = gameTeams.find(team => team !== offenseTeam)
+  const involvements: PlayInvolvement[] = []
+
+  for (const player of lineups) {
+    if (!gameTeams.includes(player.team)) continue
+
+    let helpsOwner: boolean | null = null
+
+    if (player.position === 'DEF') {
+      // Team defenses profit from takeaways and return scores
+      if (kind === 'turnover' && player.team === defenseTeam) {
+        helpsOwner = true
+      } else if (kind === 'touchdown' && player.team === offenseTeam && DEFENSIVE_SCORE_PATTERN.test(text)) {
+        helpsOwner = true
+      }
+    } else if (mentionsPlayer(text, player)) {
+      // The ball carrier or passer on a turnover loses out; everyone else scored
+      helpsOwner = !(kind === 'turnover' && player.team === offenseTeam)
+    }
+
+    if (helpsOwner === null) continue
+
+    involvements.push({
+      playerId: player.playerId,
+      name: player.name,
+      isOpponent: player.isOpponent,
+      leagueNames: player.leagueNames,
+      helpsMe: player.isOpponent ? !helpsOwner : helpsOwner
+    })
+  }
+
+  return involvements
+}
+
+// Detect touchdowns, field goals, turnovers and big plays in a game summary
+// that involve any player from the user's or their opponents' lineups
+export const detectPlayEvents = (
+  summary: ESPNSummary,
+  game: ESPNGame,
+  lineups: PlayerLineup[]
+): PlayEvent[] => {
+  const teamAbbreviations = getTeamAbbreviations(game)
+  const gameTeams = Array.from(teamAbbreviations.values())
+  const events = new Map<string, PlayEvent>()
+  const detectedAt = Date.now()
+
+  const addEvent = (play: ESPNPlay, kind: PlayEventKind, offenseTeam: string) => {
+    const id = `${game.id}-${play.id}`
+    if (events.has(id)) return
+
+    const involvements = getInvolvements(kind, play.text, offenseTeam, gameTeams, lineups)
+    if (involvements.length === 0) return
+
+    events.set(id, {
+      id,
+      gameId: game.id,
+      kind,
+      text: play.text,
+      team: offenseTeam,
+      period: play.period?.number || 0,
+      clock: play.clock?.displayValue || '',
+      detectedAt,
+      involvements
+    })
+  }
+
+  // Scoring plays carry the scoring team directly
+  for (const play of summary.scoringPlays || []) {
+    const kind = getScoringKind(play)
+    if (kind) {
+      addEvent(play, kind, normalizeTeam(play.team.abbreviation))
+    }
+  }
+
+  // Turnovers and big plays come from the drive-by-drive play list
+  const drives = [...(summary.drives?.previous || []), ...(summary.drives?.current ? [summary.drives.current] : [])]
+  for (const drive of drives) {
+    for (const play of drive.plays || []) {
+      if (play.scoringPlay) continue
+
+      const offenseTeam = (play.start?.team?.id && teamAbbreviations.get(play.start.team.id)) ||
+        normalizeTeam(drive.team?.abbreviation || '')
+      const typeText = play.type?.text || ''
+
+      if (TURNOVER_PATTERN.test(typeText)) {
+        addEvent(play, 'turnover', offenseTeam)
+      } else if ((play.statYardage || 0) >= BIG_PLAY_YARDS && OFFENSIVE_PLAY_PATTERN.test(typeText)) {
+        addEvent(play, 'big_play', offenseTeam)
+      }
+    }
+  }
+
+  return Array.from(events.values())
+}
+
+// Leagues where the play helped me and where it helped my opponent
+export const getPlayImpact = (event: PlayEvent) => {
+  const helpedMe = new Set<string>()
+  const helpedOpponent = new Set<string>()
+
+  for (const involvement of event.involvements) {
+    const target = involvement.helpsMe ? helpedMe : helpedOpponent
+    involvement.leagueNames.forEach(leagueName => target.add(leagueName))
+  }
+
+  return {
+    helpedMe: Array.from(helpedMe),
+    helpedOpponent: Array.from(helpedOpponent)
+  }
+}
\ No newline at end of file
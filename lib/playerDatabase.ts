@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { createHash } from 'crypto'
+import { SleeperPlayers } from '@/types'
+import { fetchSleeperPlayers } from './api'
+
+// Server-side copy of the Sleeper player database. Sleeper asks clients to
+// download /players/nfl at most once per day, so it is refreshed daily and
+// persisted to disk to survive server restarts.
+const REFRESH_INTERVAL = 24 * 60 * 60 * 1000 // 24 hours
+// After a failed refresh the stale copy is served this long before Sleeper is tried again
+const REFRESH_RETRY_DELAY = 15 * 60 * 1000 // 15 minutes
+const DATABASE_FILE = path.join(os.tmpdir(), 'redzone-sleeper-players.json')
+
+export interface PlayerDatabase {
+  players: SleeperPlayers
+  updatedAt: number
+  // Content hash, changes whenever the player data changes
+  version: string
+}
+
+let database: PlayerDatabase | null = null
+let refreshPromise: Promise<PlayerDatabase> | null = null
+// No refresh is attempted before this time, set when a refresh fails
+let retryAfter = 0
+
+const isFresh = (db: PlayerDatabase | null): db is PlayerDatabase => {
+  return !!db && Date.now() - db.updatedAt < REFRESH_INTERVAL
+}
+
+const hashPlayers = (players: SleeperPlayers): string => {
+  return createHash('sha1').update(JSON.stringify(players)).digest('hex')
+}
+
+const readFromDisk = async (): Promise<PlayerDatabase | null> => {
+  try {
+    const contents = await fs.readFile(DATABASE_FILE, 'utf8')
+    return JSON.parse(contents)
+  } catch (error) {
+    return null
+  }
+}
+
+const writeToDisk = async (db: PlayerDatabase) => {
+  try {
+    await fs.writeFile(DATABASE_FILE, JSON.stringify(db))
+  } catch (error) {
+    console.warn('Could not persist Sleeper player database:', error)
+  }
+}
+
+const refreshDatabase = async (): Promise<PlayerDatabase> => {
+  const diskDatabase = await readFromDisk()
+  if (isFresh(diskDatabase)) {
+    return diskDatabase
+  }
+
+  try {
+    const players = await fetchSleeperPlayers()
+    const version = hashPlayers(players)
+
+    const refreshed = { players, updatedAt: Date.now(), version }
+    await writeToDisk(refreshed)
+    return refreshed
+  } catch (error) {
+    // Serve stale data rather than nothing when Sleeper is unavailable
+    const stale = database || diskDatabase
+    if (stale) {
+      retryAfter = Date.now() + REFRESH_RETRY_DELAY
+      console.warn('Serving stale Sleeper player database after refresh failure:', error)
+      return stale
+    }
+    throw error
+  }
+}
+
+// Get the player database, refreshing it when it is more than a day old
+export const getPlayerDatabase = async (): Promise<PlayerDatabase> => {
+  if (isFresh(database) || (database && Date.now() < retryAfter)) {
+    return database
+  }
+
+  // Share a single upstream download between concurrent requests
+  if (!refreshPromise) {
+    refreshPromise = refreshDatabase()
+      .then(db => {
+        database = db
+        return db
+      })
+      .finally(() => {
+        refreshPromise = null
+      })
+  }
+
+  return refreshPromise
+}
+
+// ETag for a set of requested players at the current database version
+export const getPlayersETag = (version: string, playerIds: string[]): string => {
+  const hash = createHash('sha1').update(version).update(playerIds.join(',')).digest('hex')
+  return `"${hash}"`
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { SleeperPlayer, SleeperPlayers } from '@/types'
+
+// A player record that is missing from the database or failed validation
+export class SleeperPlayerError extends Error {
+  playerId: string
+  reason: string
+  leagueName?: string
+
+  constructor(playerId: string, reason: string, leagueName?: string) {
+    super(`Player ${playerId}${leagueName ? ` (${leagueName})` : ''}: ${reason}`)
+    this.name = 'SleeperPlayerError'
+    this.playerId = playerId
+    this.reason = reason
+    this.leagueName = leagueName
+  }
+}
+
+// Reasons for records rejected during the last validation, so later lookups can report them
+const invalidPlayers = new Map<string, string>()
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string'
+
+// Validate one raw player record from the Sleeper API (or the compact cache)
+export const parseSleeperPlayer = (playerId: string, raw: unknown): SleeperPlayer => {
+  if (!raw || typeof raw !== 'object') {
+    throw new SleeperPlayerError(playerId, 'record is not an object')
+  }
+
+  const record = raw as Record<string, unknown>
+
+  if (typeof record.first_name !== 'string' || !record.first_name.trim()) {
+    throw new SleeperPlayerError(playerId, 'missing first_name')
+  }
+  if (typeof record.last_name !== 'string' || !record.last_name.trim()) {
+    throw new SleeperPlayerError(playerId, 'missing last_name')
+  }
+  if (!isOptionalString(record.position)) {
+    throw new SleeperPlayerError(playerId, 'position is not a string')
+  }
+  if (!isOptionalString(record.team)) {
+    throw new SleeperPlayerError(playerId, 'team is not a string')
+  }
+  if (!isOptionalString(record.injury_status)) {
+    throw new SleeperPlayerError(playerId, 'injury_status is not a string')
+  }
+
+  // Jersey numbers occasionally arrive as strings
+  let number: number | null = null
+  if (typeof record.number === 'number') {
+    number = record.number
+  } else if (typeof record.number === 'string' && record.number.trim() && !isNaN(Number(record.number))) {
+    number = Number(record.number)
+  }
+
+  return {
+    player_id: playerId,
+    first_name: record.first_name,
+    last_name: record.last_name,
+    position: (record.position as string | null | undefined) ?? null,
+    team: (record.team as string | null | undefined) ?? null,
+    number,
+    fantasy_positions: Array.isArray(record.fantasy_positions) ? record.fantasy_positions as string[] : null,
+    status: typeof record.status === 'string' ? record.status : null,
+    injury_status: (record.injury_status as string | null | undefined) ?? null,
+    active: typeof record.active === 'boolean' ? record.active : undefined
+  }
+}
+
+// Validate a whole player database, keeping valid records and collecting errors for the rest
+export const parseSleeperPlayers = (raw: unknown): { players: SleeperPlayers, errors: SleeperPlayerError[] } => {
+  const players: SleeperPlayers = {}
+  const errors: SleeperPlayerError[] = []
+
+  if (!raw || typeof raw !== 'object') {
+    return { players, errors }
+  }
+
+  for (const [playerId, record] of Object.entries(raw as Record<string, unknown>)) {
+    try {
+      players[playerId] = parseSleeperPlayer(playerId, record)
+      invalidPlayers.delete(playerId)
+    } catch (error) {
+      if (error instanceof SleeperPlayerError) {
+        errors.push(error)
+        invalidPlayers.set(playerId, error.reason)
+      } else {
+        throw error
+      }
+    }
+  }
+
+  return { players, errors }
+}
+
+// Look up a starter, turning missing or invalid records into an explicit error
+export const resolvePlayer = (players: SleeperPlayers, playerId: string, leagueName?: string): SleeperPlayer => {
+  const player = players[playerId]
+  if (player) return player
+
+  const reason = invalidPlayers.get(playerId) || 'not found in player database'
+  throw new SleeperPlayerError(playerId, reason, leagueName)
+}
+
+export const getPlayerName = (player: SleeperPlayer): string => {
+  return `${player.first_name} ${player.last_name}`
+}
+
+// Sleeper uses "0" for empty starter slots
+export const isEmptySlot = (playerId: string | null | undefined): boolean => {
+  return !playerId || playerId === '0'
+}
\ No newline at end of file
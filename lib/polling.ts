@@ -0,0 +1,146 @@
+import { ESPNGame } from '@/types'
+
+// Polling intervals in milliseconds
+export const POLL_INTERVALS = {
+  LIVE_GAMES: 15 * 1000, // 15 seconds while any game is in progress
+  LIVE_MATCHUPS: 30 * 1000, // 30 seconds while any game is in progress
+  LIVE_PLAYS: 20 * 1000, // 20 seconds for play-by-play while any game is in progress
+  IDLE_MIN: 2 * 60 * 1000, // First idle poll after 2 minutes
+  IDLE_MAX: 15 * 60 * 1000, // Back off to at most 15 minutes between idle polls
+  ERROR_MAX: 5 * 60 * 1000 // Cap for error backoff
+} as const
+
+export interface PollerOptions<T> {
+  fetch: () => Promise<T>
+  onData: (data: T) => void
+  onError?: (error: any) => void
+  // Interval to use while games are live
+  liveInterval: number
+  // Decides after every tick whether the fast live interval applies
+  isLive: () => boolean
+}
+
+export interface Poller {
+  start: () => void
+  stop: () => void
+  pollNow: () => Promise<void>
+}
+
+// Create a background poller that runs fast while games are live, backs off
+// exponentially while nothing is live and pauses while the tab is hidden
+export const createPoller = <T>(options: PollerOptions<T>): Poller => {
+  let timeoutId: ReturnType<typeof setTimeout> | null = null
+  let running = false
+  let inFlight = false
+  let idleInterval: number = POLL_INTERVALS.IDLE_MIN
+  let errorCount = 0
+
+  const isHidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden'
+
+  const clearTimer = () => {
+    if (timeoutId) {
+      clearTimeout(timeoutId)
+      timeoutId = null
+    }
+  }
+
+  const getNextInterval = () => {
+    if (errorCount > 0) {
+      const base = options.isLive() ? options.liveInterval : idleInterval
+      return Math.min(base * Math.pow(2, errorCount), POLL_INTERVALS.ERROR_MAX)
+    }
+
+    if (options.isLive()) {
+      idleInterval = POLL_INTERVALS.IDLE_MIN
+      return options.liveInterval
+    }
+
+    const interval = idleInterval
+    idleInterval = Math.min(idleInterval * 2, POLL_INTERVALS.IDLE_MAX)
+    return interval
+  }
+
+  const schedule = () => {
+    clearTimer()
+    if (!running || isHidden()) return
+    timeoutId = setTimeout(tick, getNextInterval())
+  }
+
+  const tick = async () => {
+    if (!running || inFlight) return
+    inFlight = true
+
+    try {
+      const data = await options.fetch()
+      if (!running) return
+      errorCount = 0
+      options.onData(data)
+    } catch (error) {
+      errorCount++
+      options.onError?.(error)
+    } finally {
+      inFlight = false
+      schedule()
+    }
+  }
+
+  const handleVisibilityChange = () => {
+    if (!running) return
+    if (isHidden()) {
+      clearTimer()
+    } else {
+      // Catch up immediately when the tab becomes visible again
+      idleInterval = POLL_INTERVALS.IDLE_MIN
+      tick()
+    }
+  }
+
+  return {
+    start: () => {
+      if (running) return
+      running = true
+      if (typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', handleVisibilityChange)
+      }
+      schedule()
+    },
+
+    stop: () => {
+      running = false
+      clearTimer()
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange)
+      }
+    },
+
+    pollNow: async () => {
+      clearTimer()
+      await tick()
+    }
+  }
+}
+
+// Check whether any game is currently in progress
+export const hasLiveGames = (games: ESPNGame[]): boolean => {
+  return games.some(game => game.competitions[0]?.status?.type?.state === 'in')
+}
+
+// Merge freshly fetched items into the current list, reusing the previous
+// object for every item that did not change so memoized children skip rendering.
+// Returns the previous array itself when nothing changed at all.
+export const mergeById = <T>(previous: T[], next: T[], getId: (item: T) => string): T[] => {
+  const previousById = new Map(previous.map(item => [getId(item), item]))
+  let changed = previous.length !== next.length
+
+  const merged = next.map((item, index) => {
+    const existing = previousById.get(getId(item))
+    if (existing && JSON.stringify(existing) === JSON.stringify(item)) {
+      if (previous[index] !== existing) changed = true
+      return existing
+    }
+    changed = true
+    return item
+  })
+
+  return changed ? merged : previous
+}
\ No newline at end of file
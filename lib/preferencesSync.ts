@@ -0,0 +1,170 @@
+import { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase, Database } from './supabase'
+import { GameConfig } from './storage'
+
+type UserPreferencesRow = Database['public']['Tables']['user_preferences']['Row']
+
+// Preferences synced per user and week across devices
+export interface SyncedPreferences {
+  gameConfig: GameConfig[]
+  hiddenLeagues: string[]
+  hiddenLeaguesUpdatedAt: number
+}
+
+interface PreferencesSyncOptions {
+  userId: string
+  season: number
+  week: number
+  // Current local preferences for this week
+  getLocal: () => SyncedPreferences
+  // Called when remote changes were merged into the local preferences
+  onMerged: (preferences: SyncedPreferences) => void
+}
+
+const fromRow = (row: UserPreferencesRow): SyncedPreferences => ({
+  gameConfig: row.game_config || [],
+  hiddenLeagues: row.hidden_leagues || [],
+  hiddenLeaguesUpdatedAt: row.hidden_leagues_updated_at || 0
+})
+
+const normalize = (preferences: SyncedPreferences): SyncedPreferences => ({
+  gameConfig: [...preferences.gameConfig].sort((a, b) => a.gameId.localeCompare(b.gameId)),
+  hiddenLeagues: [...preferences.hiddenLeagues].sort(),
+  hiddenLeaguesUpdatedAt: preferences.hiddenLeaguesUpdatedAt
+})
+
+const arePreferencesEqual = (a: SyncedPreferences, b: SyncedPreferences) =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b))
+
+// Mark the games whose settings changed between two configs
+export const stampGameConfig = (previous: GameConfig[], next: GameConfig[]): GameConfig[] => {
+  const previousById = new Map(previous.map(config => [config.gameId, config]))
+  const now = Date.now()
+
+  return next.map(config => {
+    const { updatedAt, ...settings } = config
+    const before = previousById.get(config.gameId)
+    if (before) {
+      const { updatedAt: beforeUpdatedAt, ...beforeSettings } = before
+      if (JSON.stringify(settings) === JSON.stringify(beforeSettings)) {
+        return { ...settings, updatedAt: beforeUpdatedAt }
+      }
+    }
+    return { ...settings, updatedAt: now }
+  })
+}
+
+// Merge per game, keeping whichever side changed a game's settings last
+export const mergeGameConfig = (local: GameConfig[], remote: GameConfig[]): GameConfig[] => {
+  const merged = new Map(local.map(config => [config.gameId, config]))
+
+  for (const remoteConfig of remote) {
+    const localConfig = merged.get(remoteConfig.gameId)
+    if (!localConfig || (remoteConfig.updatedAt || 0) > (localConfig.updatedAt || 0)) {
+      merged.set(remoteConfig.gameId, remoteConfig)
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+export const mergePreferences = (local: SyncedPreferences, remote: SyncedPreferences): SyncedPreferences => {
+  const useRemoteLeagues = remote.hiddenLeaguesUpdatedAt > local.hiddenLeaguesUpdatedAt
+
+  return {
+    gameConfig: mergeGameConfig(local.gameConfig, remote.gameConfig),
+    hiddenLeagues: useRemoteLeagues ? remote.hiddenLeagues : local.hiddenLeagues,
+    hiddenLeaguesUpdatedAt: Math.max(local.hiddenLeaguesUpdatedAt, remote.hiddenLeaguesUpdatedAt)
+  }
+}
+
+// Keep game configuration and hidden leagues in sync with Supabase for one week.
+// Remote changes from other sessions arrive through Supabase realtime. Sync
+// failures (e.g. the user_preferences table is missing) only log a warning;
+// the app keeps working from local storage.
+export const createPreferencesSync = ({ userId, season, week, getLocal, onMerged }: PreferencesSyncOptions) => {
+  let channel: RealtimeChannel | null = null
+  let stopped = false
+
+  const save = async (preferences: SyncedPreferences) => {
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({
+        user_id: userId,
+        season,
+        week,
+        game_config: preferences.gameConfig,
+        hidden_leagues: preferences.hiddenLeagues,
+        hidden_leagues_updated_at: preferences.hiddenLeaguesUpdatedAt
+      }, { onConflict: 'user_id,season,week' })
+
+    if (error) throw error
+  }
+
+  const reconcile = async (remote: SyncedPreferences | null) => {
+    if (stopped) return
+
+    const local = getLocal()
+    const merged = remote ? mergePreferences(local, remote) : local
+
+    if (!arePreferencesEqual(merged, local)) {
+      onMerged(merged)
+    }
+    // Only write back when this session knows something the server does not
+    if (!remote || !arePreferencesEqual(merged, remote)) {
+      await save(merged)
+    }
+  }
+
+  const start = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('season', season)
+        .eq('week', week)
+        .maybeSingle()
+
+      if (error) throw error
+      await reconcile(data ? fromRow(data) : null)
+    } catch (error) {
+      console.warn('Could not sync preferences:', error)
+    }
+
+    if (stopped) return
+
+    channel = supabase
+      .channel(`user_preferences:${userId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'user_preferences',
+        filter: `user_id=eq.${userId}`
+      }, (payload) => {
+        const row = payload.new as UserPreferencesRow
+        if (!row || row.season !== season || row.week !== week) return
+
+        reconcile(fromRow(row)).catch(error => console.warn('Could not merge synced preferences:', error))
+      })
+      .subscribe()
+  }
+
+  // Push local changes; call after updating local preferences
+  const push = () => {
+    if (stopped) return
+    save(getLocal()).catch(error => console.warn('Could not save preferences:', error))
+  }
+
+  const stop = () => {
+    stopped = true
+    if (channel) {
+      supabase.removeChannel(channel)
+      channel = null
+    }
+  }
+
+  return { start, push, stop }
+}
+
+export type PreferencesSync = ReturnType<typeof createPreferencesSync>
\ No newline at end of file
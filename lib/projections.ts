@@ -0,0 +1,138 @@
+import {
+  ESPNGame,
+  LeagueMatchup,
+  LeagueMatchupProjection,
+  MatchupSide,
+  MatchupSideProjection,
+  PlayerProjection,
+  SleeperPlayers,
+  SleeperProjectionStats
+} from '@/types'
+import { isEmptySlot } from './players'
+import { normalizeTeam } from './teams'
+
+const QUARTER_SECONDS = 15 * 60
+const REGULATION_SECONDS = 4 * QUARTER_SECONDS
+
+// Pick the projection stat that matches a league's reception scoring
+export const getScoringKey = (scoringSettings?: Record<string, number>): string => {
+  const rec = scoringSettings?.rec ?? 1
+  if (rec >= 1) return 'pts_ppr'
+  if (rec >= 0.5) return 'pts_half_ppr'
+  return 'pts_std'
+}
+
+// Parse ESPN's "mm:ss" display clock into seconds
+export const parseDisplayClock = (displayClock?: string): number => {
+  if (!displayClock) return 0
+  const [minutes, seconds] = displayClock.split(':').map(part => parseInt(part, 10))
+  if (isNaN(minutes)) return 0
+  return minutes * 60 + (isNaN(seconds) ? 0 : seconds)
+}
+
+// Fraction of an NFL game still to be played, from ESPN status period and clock.
+// Players without a game this week (bye, free agent) have nothing remaining.
+export const getGameRemainingFraction = (game?: ESPNGame): number => {
+  const status = game?.competitions[0]?.status
+  if (!status) return 0
+
+  const state = status.type?.state
+  if (state === 'pre') return 1
+  if (state !== 'in') return 0
+
+  // Overtime is treated as effectively finished
+  if (status.period > 4) return 0
+
+  const period = Math.max(status.period, 1)
+  const clockSeconds = parseDisplayClock(status.displayClock)
+  const remainingSeconds = (4 - period) * QUARTER_SECONDS + clockSeconds
+
+  return Math.min(Math.max(remainingSeconds / REGULATION_SECONDS, 0), 1)
+}
+
+// Map (Sleeper) team abbreviations to this week's game for quick lookup
+export const buildTeamGameMap = (games: ESPNGame[]): Map<string, ESPNGame> => {
+  const teamGames = new Map<string, ESPNGame>()
+  for (const game of games) {
+    for (const competitor of game.competitions[0]?.competitors || []) {
+      teamGames.set(normalizeTeam(competitor.team.abbreviation), game)
+    }
+  }
+  return teamGames
+}
+
+// Project one starter: points already scored plus the share of the pregame
+// projection that is still to be played
+export const projectPlayer = (
+  playerId: string,
+  points: number,
+  players: SleeperPlayers,
+  projections: Record<string, SleeperProjectionStats>,
+  teamGames: Map<string, ESPNGame>,
+  scoringKey: string
+): PlayerProjection => {
+  const player = players[playerId]
+  const team = player?.team || 'FA'
+  const pregameProjection = projections[playerId]?.[scoringKey] || 0
+  const remainingFraction = getGameRemainingFraction(teamGames.get(team))
+
+  return {
+    playerId,
+    position: player?.position || 'N/A',
+    team,
+    points,
+    pregameProjection,
+    remainingFraction,
+    projectedPoints: points + pregameProjection * remainingFraction
+  }
+}
+
+const projectSide = (
+  side: MatchupSide,
+  players: SleeperPlayers,
+  projections: Record<string, SleeperProjectionStats>,
+  teamGames: Map<string, ESPNGame>,
+  scoringKey: string
+): MatchupSideProjection => {
+  const playerProjections = side.starters
+    .filter(playerId => !isEmptySlot(playerId))
+    .map(playerId => projectPlayer(
+      playerId,
+      side.playersPoints[playerId] || 0,
+      players,
+      projections,
+      teamGames,
+      scoringKey
+    ))
+
+  return {
+    rosterId: side.rosterId,
+    owner: side.owner,
+    points: side.points,
+    projectedPoints: side.points + playerProjections.reduce(
+      (total, player) => total + player.projectedPoints - player.points, 0
+    ),
+    players: playerProjections
+  }
+}
+
+// Live projected totals for both sides of a league matchup
+export const projectLeagueMatchup = (
+  matchup: LeagueMatchup,
+  games: ESPNGame[],
+  players: SleeperPlayers,
+  projections: Record<string, SleeperProjectionStats>
+): LeagueMatchupProjection => {
+  const teamGames = buildTeamGameMap(games)
+
+  return {
+    leagueId: matchup.leagueId,
+    leagueName: matchup.leagueName,
+    matchupId: matchup.matchupId,
+    round: matchup.round,
+    userRoster: projectSide(matchup.userRoster, players, projections, teamGames, matchup.scoringKey),
+    opponentRoster: matchup.opponentRoster
+      ? projectSide(matchup.opponentRoster, players, projections, teamGames, matchup.scoringKey)
+      : { rosterId: 0, owner: 'Bye Week', points: 0, projectedPoints: 0, players: [] }
+  }
+}
\ No newline at end of file
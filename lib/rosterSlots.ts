@@ -0,0 +1,33 @@
+// Starting lineup slots from a Sleeper league's roster_positions. Starters are
+// listed in roster_positions order, followed by the BN, IR and TAXI spots.
+
+// Roster positions that are not part of the starting lineup
+const NON_STARTING_POSITIONS = new Set(['BN', 'IR', 'TAXI'])
+
+// Display labels for Sleeper's slot codes; plain positions (QB, RB, K, DL, ...) are shown as is
+const SLOT_LABELS: Record<string, string> = {
+  FLEX: 'FLEX',
+  SUPER_FLEX: 'SFLX',
+  REC_FLEX: 'W/T',
+  WRRB_FLEX: 'W/R',
+  IDP_FLEX: 'IDP'
+}
+
+// Positions each flex slot accepts: shown in slot tooltips, and the only players
+// the start/sit optimizer will put in the slot
+const FLEX_POSITIONS: Record<string, string[]> = {
+  FLEX: ['RB', 'WR', 'TE'],
+  SUPER_FLEX: ['QB', 'RB', 'WR', 'TE'],
+  REC_FLEX: ['WR', 'TE'],
+  WRRB_FLEX: ['RB', 'WR'],
+  IDP_FLEX: ['DL', 'LB', 'DB']
+}
+
+// The league's starting slots in lineup order
+export const getStarterSlots = (rosterPositions: string[] | undefined): string[] =>
+  (rosterPositions || []).filter(position => !NON_STARTING_POSITIONS.has(position))
+
+export const getSlotLabel = (slot: string) => SLOT_LABELS[slot] || slot
+
+// Positions a slot accepts: the flex positions, or the slot's own position
+export const getSlotPositions = (slot: string): string[] => FLEX_POSITIONS[slot] || [slot]
\ No newline at end of file
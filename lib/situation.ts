@@ -0,0 +1,49 @@
+import { ESPNGame, ESPNSituation, PlayerLineup } from '@/types'
+import { normalizeTeam } from './teams'
+
+// Positions on the field when their team has the ball
+const OFFENSE_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K']
+// Positions on the field when their team is defending
+const DEFENSE_POSITIONS = ['DEF', 'DL', 'LB', 'DB']
+
+export interface Possession {
+  situation: ESPNSituation
+  offenseTeam: string
+  defenseTeam: string
+  myPlayers: PlayerLineup[]
+  opponentPlayers: PlayerLineup[]
+}
+
+// Current down-and-distance situation, only while the game is live
+export const getGameSituation = (game: ESPNGame): ESPNSituation | null => {
+  const competition = game.competitions[0]
+  if (competition?.status?.type?.state !== 'in') return null
+  return competition.situation || null
+}
+
+// Who has the ball and which of my and my opponents' players are on the field for it
+export const getPossession = (game: ESPNGame, lineups: PlayerLineup[]): Possession | null => {
+  const situation = getGameSituation(game)
+  if (!situation?.possession) return null
+
+  const competitors = game.competitions[0]?.competitors || []
+  const offense = competitors.find(c => c.team.id === situation.possession)
+  const defense = competitors.find(c => c.team.id !== situation.possession)
+  if (!offense || !defense) return null
+
+  const offenseTeam = normalizeTeam(offense.team.abbreviation)
+  const defenseTeam = normalizeTeam(defense.team.abbreviation)
+
+  const onField = lineups.filter(player =>
+    (player.team === offenseTeam && OFFENSE_POSITIONS.includes(player.position)) ||
+    (player.team === defenseTeam && DEFENSE_POSITIONS.includes(player.position))
+  )
+
+  return {
+    situation,
+    offenseTeam,
+    defenseTeam,
+    myPlayers: onField.filter(player => !player.isOpponent),
+    opponentPlayers: onField.filter(player => player.isOpponent)
+  }
+}
\ No newline at end of file
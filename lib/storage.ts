@@ -1,3 +1,6 @@
+import { SleeperPlayers } from '@/types'
+import { StorageBackend, createIndexedDBBackend, createMemoryBackend, isIndexedDBAvailable } from './storageBackends'
+
 // Local storage utilities for caching data
 export const STORAGE_KEYS = {
   GAMES: 'redzone_games',
@@ -8,39 +11,349 @@ export const STORAGE_KEYS = {
   CURRENT_WEEK: 'redzone_current_week',
   CURRENT_VIEW: 'redzone_current_view',
   USER_LEAGUES: 'redzone_user_leagues',
-  HIDDEN_LEAGUES: 'redzone_hidden_leagues'
+  HIDDEN_LEAGUES: 'redzone_hidden_leagues',
+  HIDDEN_LEAGUES_UPDATED_AT: 'redzone_hidden_leagues_updated_at',
+  GAME_SORT: 'redzone_game_sort',
+  ALL_LEAGUES_MATCHUPS: 'redzone_all_leagues_matchups'
 } as const
 
+// Large datasets live in IndexedDB; small UI state stays in localStorage
+const LARGE_DATA_KEYS = new Set<string>([
+  STORAGE_KEYS.GAMES,
+  STORAGE_KEYS.PLAYER_LINEUPS,
+  STORAGE_KEYS.SLEEPER_PLAYERS,
+  STORAGE_KEYS.ALL_LEAGUES_MATCHUPS
+])
+
+export type GameSortMode = 'custom' | 'leverage'
+
+// Top-level screens, restored on reload
+export type AppView = 'dashboard' | 'redzone' | 'allleagues' | 'exposure'
+
 export interface GameConfig {
   gameId: string
   isVisible: boolean
   customOrder: number
   customLabel?: string
+  // When this game's settings last changed, used to merge synced preferences
+  updatedAt?: number
 }
 
 export interface CachedData {
+  // Schema version of data; entries written before versioning have none
+  version?: number
   timestamp: number
   data: any
 }
 
+export interface CachePolicy {
+  // Age in milliseconds after which data is stale and should be refreshed
+  ttl: number
+  // How much longer stale data may still be served while it is refreshed
+  staleWhileRevalidate: number
+}
+
+export interface CachedEntryMeta<T = any> {
+  data: T
+  timestamp: number
+  age: number
+  isStale: boolean
+}
+
 // Cache duration in milliseconds (30 minutes)
 const CACHE_DURATION = 30 * 60 * 1000
 
-// Storage quota management
-const MAX_STORAGE_SIZE = 4 * 1024 * 1024 // 4MB limit to be safe
+const SECOND = 1000
+const MINUTE = 60 * SECOND
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+export const NEVER_EXPIRE: CachePolicy = { ttl: Infinity, staleWhileRevalidate: 0 }
+
+const DEFAULT_CACHE_POLICY: CachePolicy = { ttl: CACHE_DURATION, staleWhileRevalidate: 0 }
+
+// Per-key policies; keys not listed here use DEFAULT_CACHE_POLICY
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  // Live data goes stale within seconds but is still worth showing while refreshing
+  [STORAGE_KEYS.GAMES]: { ttl: 15 * SECOND, staleWhileRevalidate: 12 * HOUR },
+  [STORAGE_KEYS.PLAYER_LINEUPS]: { ttl: 30 * SECOND, staleWhileRevalidate: 12 * HOUR },
+  [STORAGE_KEYS.ALL_LEAGUES_MATCHUPS]: { ttl: 30 * SECOND, staleWhileRevalidate: 12 * HOUR },
+  // The server-side player database refreshes daily
+  [STORAGE_KEYS.SLEEPER_PLAYERS]: { ttl: DAY, staleWhileRevalidate: 6 * DAY },
+  [STORAGE_KEYS.USER_LEAGUES]: { ttl: 5 * MINUTE, staleWhileRevalidate: 30 * DAY },
+  [STORAGE_KEYS.CURRENT_WEEK]: { ttl: HOUR, staleWhileRevalidate: DAY },
+  // User preferences
+  [STORAGE_KEYS.GAME_CONFIG]: NEVER_EXPIRE,
+  [STORAGE_KEYS.HIDDEN_LEAGUES]: NEVER_EXPIRE,
+  [STORAGE_KEYS.HIDDEN_LEAGUES_UPDATED_AT]: NEVER_EXPIRE,
+  [STORAGE_KEYS.GAME_SORT]: NEVER_EXPIRE,
+  [STORAGE_KEYS.CURRENT_VIEW]: NEVER_EXPIRE
+}
+
+// Schema version of each key's data. Bump it whenever the cached shape changes
+// and register a migration from the previous version below.
+const SCHEMA_VERSIONS: Record<string, number> = {
+  [STORAGE_KEYS.PLAYER_LINEUPS]: 2,
+  [STORAGE_KEYS.SLEEPER_PLAYERS]: 2,
+  [STORAGE_KEYS.ALL_LEAGUES_MATCHUPS]: 2
+}
+const DEFAULT_SCHEMA_VERSION = 1
+
+// Migrations keyed by storage key, then by the version they upgrade from.
+// Entries older than the current version without a migration path are discarded.
+const CACHE_MIGRATIONS: Record<string, Record<number, (data: any) => any>> = {
+  // Per-league live points were added alongside leagueIds
+  [STORAGE_KEYS.PLAYER_LINEUPS]: {
+    1: (lineups: any[]) => lineups.map(player => ({
+      ...player,
+      leaguePoints: player.leaguePoints || (player.leagueIds || []).map(() => 0)
+    }))
+  },
+  // Compact player records gained their own player_id
+  [STORAGE_KEYS.SLEEPER_PLAYERS]: {
+    1: (players: Record<string, any>) => Object.fromEntries(
+      Object.entries(players).map(([playerId, player]) => [playerId, { ...player, player_id: playerId }])
+    )
+  }
+  // ALL_LEAGUES_MATCHUPS v1 held per-league lineups without matchup scores; it cannot be upgraded
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isArrayOf = (value: unknown, isItem: (item: any) => boolean) =>
+  Array.isArray(value) && value.every(isItem)
+
+const isStringArray = (value: unknown) => isArrayOf(value, item => typeof item === 'string')
+
+// Shape checks applied after migration; data failing them is discarded
+const CACHE_VALIDATORS: Record<string, (data: any) => boolean> = {
+  [STORAGE_KEYS.GAMES]: games => isArrayOf(games, game =>
+    isObject(game) && typeof game.id === 'string' && Array.isArray(game.competitions)
+  ),
+  [STORAGE_KEYS.PLAYER_LINEUPS]: lineups => isArrayOf(lineups, player =>
+    isObject(player) &&
+    typeof player.playerId === 'string' &&
+    typeof player.name === 'string' &&
+    typeof player.isOpponent === 'boolean' &&
+    isStringArray(player.leagueIds) &&
+    isStringArray(player.leagueNames) &&
+    isArrayOf(player.leaguePoints, points => typeof points === 'number')
+  ),
+  [STORAGE_KEYS.GAME_CONFIG]: config => isArrayOf(config, item =>
+    isObject(item) &&
+    typeof item.gameId === 'string' &&
+    typeof item.isVisible === 'boolean' &&
+    typeof item.customOrder === 'number' &&
+    (item.updatedAt === undefined || typeof item.updatedAt === 'number')
+  ),
+  [STORAGE_KEYS.SLEEPER_PLAYERS]: players => isObject(players) && Object.values(players).every(isObject),
+  [STORAGE_KEYS.SELECTED_GAME]: index => typeof index === 'number',
+  [STORAGE_KEYS.CURRENT_WEEK]: week => typeof week === 'number',
+  [STORAGE_KEYS.CURRENT_VIEW]: view => ['dashboard', 'redzone', 'allleagues', 'exposure'].includes(view),
+  [STORAGE_KEYS.USER_LEAGUES]: leagues => isArrayOf(leagues, league =>
+    isObject(league) && typeof league.sleeper_league_id === 'string'
+  ),
+  [STORAGE_KEYS.HIDDEN_LEAGUES]: isStringArray,
+  [STORAGE_KEYS.HIDDEN_LEAGUES_UPDATED_AT]: updatedAt => typeof updatedAt === 'number',
+  [STORAGE_KEYS.GAME_SORT]: mode => mode === 'custom' || mode === 'leverage',
+  [STORAGE_KEYS.ALL_LEAGUES_MATCHUPS]: matchups => isArrayOf(matchups, matchup =>
+    isObject(matchup) && typeof matchup.leagueId === 'string' && isObject(matchup.userRoster)
+  )
+}
+
+const getSchemaVersion = (key: string) => SCHEMA_VERSIONS[key] ?? DEFAULT_SCHEMA_VERSION
+
+// Bring a stored entry up to the current schema version. Returns null for
+// entries that are corrupted, from a newer version, or cannot be migrated.
+const upgradeEntry = (key: string, entry: unknown): { cached: CachedData, migrated: boolean } | null => {
+  if (!isObject(entry) || typeof entry.timestamp !== 'number' || !('data' in entry)) {
+    return null
+  }
+
+  const currentVersion = getSchemaVersion(key)
+  // Entries written before versioning are the first version
+  let version = typeof entry.version === 'number' ? entry.version : 1
+  let data = entry.data
+
+  if (version > currentVersion) {
+    return null
+  }
+
+  try {
+    while (version < currentVersion) {
+      const migrate = CACHE_MIGRATIONS[key]?.[version]
+      if (!migrate) return null
+      data = migrate(data)
+      version++
+    }
+  } catch (error) {
+    console.warn(`Cache migration failed for key: ${key}`, error)
+    return null
+  }
+
+  const validate = CACHE_VALIDATORS[key]
+  if (validate && !validate(data)) {
+    return null
+  }
+
+  return {
+    cached: { version, timestamp: entry.timestamp, data },
+    migrated: entry.version !== version
+  }
+}
 
 // Debounced storage writes to reduce frequent localStorage operations
 const debounceMap = new Map<string, NodeJS.Timeout>()
+// Entries waiting for their debounced localStorage write, so reads never see older data
+const pendingWrites = new Map<string, CachedData>()
 const DEBOUNCE_DELAY = 500 // 500ms debounce
 
+// Large data is read synchronously from this in-memory mirror, which
+// storage.hydrate() fills from the large data backend
+const largeDataMirror = new Map<string, CachedData>()
+let largeDataBackend: StorageBackend | null = null
+let hydratePromise: Promise<void> | null = null
+
+const isLargeDataKey = (key: string) => LARGE_DATA_KEYS.has(key)
+
+const getLargeDataBackend = (): StorageBackend => {
+  if (!largeDataBackend) {
+    largeDataBackend = isIndexedDBAvailable() ? createIndexedDBBackend() : createMemoryBackend()
+  }
+  return largeDataBackend
+}
+
+export const getCachePolicy = (key: string): CachePolicy => CACHE_POLICIES[key] || DEFAULT_CACHE_POLICY
+
+const getAge = (cached: CachedData) => Math.max(0, Date.now() - cached.timestamp)
+
+// Past its TTL and the stale-while-revalidate window: no longer served
+const isExpired = (key: string, cached: CachedData) => {
+  const policy = getCachePolicy(key)
+  return getAge(cached) > policy.ttl + policy.staleWhileRevalidate
+}
+
+const writeToLocalStorage = (key: string, dataString: string) => {
+  try {
+    localStorage.setItem(key, dataString)
+  } catch (error: any) {
+    if (error.name === 'QuotaExceededError') {
+      console.warn(`Storage quota exceeded for key: ${key}. Clearing cache and retrying...`)
+
+      // Clear expired cache first
+      storage.clearExpired()
+
+      try {
+        localStorage.setItem(key, dataString)
+      } catch (retryError: any) {
+        if (retryError.name === 'QuotaExceededError') {
+          console.warn(`Still quota exceeded for key: ${key}. Skipping cache for this item.`)
+        } else {
+          throw retryError
+        }
+      }
+    } else {
+      throw error
+    }
+  }
+}
+
+const writeEntry = (key: string, cachedData: CachedData) => {
+  const dataString = JSON.stringify(cachedData)
+
+  if (isLargeDataKey(key)) {
+    getLargeDataBackend().setItem(key, dataString).catch(error => {
+      console.warn(`Could not write ${key} to ${getLargeDataBackend().name}:`, error)
+    })
+  } else {
+    writeToLocalStorage(key, dataString)
+  }
+}
+
+// Parse, migrate and validate a serialized entry; invalid entries are reported and dropped
+const readEntry = (key: string, item: string) => {
+  let entry: ReturnType<typeof upgradeEntry> = null
+  try {
+    entry = upgradeEntry(key, JSON.parse(item))
+  } catch (error) {
+    // Corrupted JSON is treated like any other unusable entry
+  }
+
+  if (!entry) {
+    console.warn(`Discarding incompatible or corrupted cache for key: ${key}`)
+  }
+  return entry
+}
+
+// Move large keys left in localStorage by older versions into the large data
+// backend, then load every large key into the in-memory mirror
+const hydrateLargeData = async () => {
+  const backend = getLargeDataBackend()
+
+  for (const key of Array.from(LARGE_DATA_KEYS)) {
+    try {
+      const legacyItem = localStorage.getItem(key)
+      if (legacyItem) {
+        const stored = await backend.getItem(key)
+        const legacy: CachedData = JSON.parse(legacyItem)
+        if (!stored || JSON.parse(stored).timestamp < legacy.timestamp) {
+          await backend.setItem(key, legacyItem)
+        }
+        localStorage.removeItem(key)
+      }
+    } catch (error) {
+      console.warn(`Could not migrate ${key} to ${backend.name}:`, error)
+      localStorage.removeItem(key)
+    }
+
+    try {
+      const item = await backend.getItem(key)
+      if (!item) continue
+
+      const entry = readEntry(key, item)
+      if (!entry) {
+        await backend.removeItem(key)
+        continue
+      }
+
+      // Entries written since the page loaded are newer than what was stored
+      const current = largeDataMirror.get(key)
+      if (!current || current.timestamp < entry.cached.timestamp) {
+        largeDataMirror.set(key, entry.cached)
+        if (entry.migrated) {
+          writeEntry(key, entry.cached)
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not read ${key} from ${backend.name}:`, error)
+    }
+  }
+}
+
 export const storage = {
+  // Load large cached data into memory; call (and await) before reading large keys
+  hydrate: (): Promise<void> => {
+    if (!hydratePromise) {
+      hydratePromise = hydrateLargeData()
+    }
+    return hydratePromise
+  },
+
   // Generic cache methods with debouncing for frequent updates
   set: (key: string, data: any) => {
     const cachedData: CachedData = {
+      version: getSchemaVersion(key),
       timestamp: Date.now(),
       data
     }
-    const dataString = JSON.stringify(cachedData)
+
+    // Reads see the new value right away; only the backend write is debounced
+    if (isLargeDataKey(key)) {
+      largeDataMirror.set(key, cachedData)
+    } else {
+      pendingWrites.set(key, cachedData)
+    }
 
     // Clear existing debounce timeout for this key
     if (debounceMap.has(key)) {
@@ -50,33 +363,10 @@ export const storage = {
     // Set debounced write operation
     const timeoutId = setTimeout(() => {
       try {
-        localStorage.setItem(key, dataString)
-      } catch (error: any) {
-        if (error.name === 'QuotaExceededError') {
-          console.warn(`Storage quota exceeded for key: ${key}. Clearing cache and retrying...`)
-
-          // Clear expired cache first
-          storage.clearExpired()
-
-          try {
-            localStorage.setItem(key, dataString)
-          } catch (retryError: any) {
-            if (retryError.name === 'QuotaExceededError') {
-              console.warn(`Still quota exceeded for key: ${key}. Skipping cache for this item.`)
-              // For Sleeper players specifically, don't cache the full dataset
-              if (key === STORAGE_KEYS.SLEEPER_PLAYERS) {
-                console.log('Skipping Sleeper players cache due to size - will fetch fresh each time')
-                return
-              }
-            } else {
-              throw retryError
-            }
-          }
-        } else {
-          throw error
-        }
+        writeEntry(key, cachedData)
       } finally {
         debounceMap.delete(key)
+        pendingWrites.delete(key)
       }
     }, DEBOUNCE_DELAY)
 
@@ -86,57 +376,83 @@ export const storage = {
   // Immediate set for critical data (no debouncing)
   setImmediate: (key: string, data: any) => {
     const cachedData: CachedData = {
+      version: getSchemaVersion(key),
       timestamp: Date.now(),
       data
     }
-    const dataString = JSON.stringify(cachedData)
-
-    try {
-      localStorage.setItem(key, dataString)
-    } catch (error: any) {
-      if (error.name === 'QuotaExceededError') {
-        console.warn(`Storage quota exceeded for key: ${key}. Clearing cache and retrying...`)
-        storage.clearExpired()
 
-        try {
-          localStorage.setItem(key, dataString)
-        } catch (retryError: any) {
-          if (retryError.name === 'QuotaExceededError') {
-            console.warn(`Still quota exceeded for key: ${key}. Skipping cache for this item.`)
-            if (key === STORAGE_KEYS.SLEEPER_PLAYERS) {
-              console.log('Skipping Sleeper players cache due to size - will fetch fresh each time')
-              return
-            }
-          } else {
-            throw retryError
-          }
-        }
-      } else {
-        throw error
-      }
+    if (isLargeDataKey(key)) {
+      largeDataMirror.set(key, cachedData)
     }
+    pendingWrites.delete(key)
+    writeEntry(key, cachedData)
   },
 
   get: (key: string): any | null => {
+    return storage.getWithMeta(key)?.data ?? null
+  },
+
+  // Cached data with its age and whether it is past its TTL (but still servable)
+  getWithMeta: <T = any>(key: string): CachedEntryMeta<T> | null => {
     try {
-      const item = localStorage.getItem(key)
-      if (!item) return null
+      let cached: CachedData | undefined
 
-      const cached: CachedData = JSON.parse(item)
-      
-      // Check if cache is still valid
-      if (Date.now() - cached.timestamp > CACHE_DURATION) {
-        localStorage.removeItem(key)
+      if (isLargeDataKey(key)) {
+        cached = largeDataMirror.get(key)
+      } else if (pendingWrites.has(key)) {
+        cached = pendingWrites.get(key)
+      } else {
+        const item = localStorage.getItem(key)
+        if (!item) return null
+
+        const entry = readEntry(key, item)
+        if (!entry) {
+          localStorage.removeItem(key)
+          return null
+        }
+        if (entry.migrated) {
+          writeToLocalStorage(key, JSON.stringify(entry.cached))
+        }
+        cached = entry.cached
+      }
+      if (!cached) return null
+
+      // Check if cache can still be served
+      if (isExpired(key, cached)) {
+        storage.remove(key)
         return null
       }
 
-      return cached.data
+      const age = getAge(cached)
+      return {
+        data: cached.data,
+        timestamp: cached.timestamp,
+        age,
+        isStale: age > getCachePolicy(key).ttl
+      }
     } catch (error) {
       console.error('Error reading from storage:', error)
       return null
     }
   },
 
+  remove: (key: string) => {
+    if (debounceMap.has(key)) {
+      clearTimeout(debounceMap.get(key)!)
+      debounceMap.delete(key)
+    }
+    pendingWrites.delete(key)
+
+    if (isLargeDataKey(key)) {
+      largeDataMirror.delete(key)
+      getLargeDataBackend().removeItem(key).catch(error => {
+        console.warn(`Could not remove ${key} from ${getLargeDataBackend().name}:`, error)
+      })
+    } else {
+      localStorage.removeItem(key)
+    }
+  },
+
   // Game configuration methods
   getGameConfig: (): GameConfig[] => {
     return storage.get(STORAGE_KEYS.GAME_CONFIG) || []
@@ -169,24 +485,26 @@ export const storage = {
     return storage.get(STORAGE_KEYS.SLEEPER_PLAYERS)
   },
 
-  setSleeperPlayers: (players: any) => {
-    // Try to cache full dataset, but gracefully handle quota exceeded
+  setSleeperPlayers: (players: SleeperPlayers) => {
     storage.set(STORAGE_KEYS.SLEEPER_PLAYERS, players)
   },
 
   // Store only the players we need (from lineups) to save space
-  setCompactSleeperPlayers: (allPlayers: any, playerIds: string[]) => {
-    const compactPlayers: any = {}
+  setCompactSleeperPlayers: (allPlayers: SleeperPlayers, playerIds: string[]) => {
+    const compactPlayers: SleeperPlayers = {}
     
     // Only store players that are actually in our lineups
     playerIds.forEach(playerId => {
-      if (allPlayers[playerId]) {
+      const player = allPlayers[playerId]
+      if (player) {
         compactPlayers[playerId] = {
-          first_name: allPlayers[playerId].first_name,
-          last_name: allPlayers[playerId].last_name,
-          position: allPlayers[playerId].position,
-          team: allPlayers[playerId].team,
-          number: allPlayers[playerId].number
+          player_id: playerId,
+          first_name: player.first_name,
+          last_name: player.last_name,
+          position: player.position,
+          team: player.team,
+          number: player.number,
+          injury_status: player.injury_status
         }
       }
     })
@@ -203,7 +521,7 @@ export const storage = {
     if (index !== null) {
       storage.set(STORAGE_KEYS.SELECTED_GAME, index)
     } else {
-      localStorage.removeItem(STORAGE_KEYS.SELECTED_GAME)
+      storage.remove(STORAGE_KEYS.SELECTED_GAME)
     }
   },
 
@@ -215,11 +533,11 @@ export const storage = {
     storage.set(STORAGE_KEYS.CURRENT_WEEK, week)
   },
 
-  getCurrentView: (): 'dashboard' | 'redzone' | 'allleagues' | null => {
+  getCurrentView: (): AppView | null => {
     return storage.get(STORAGE_KEYS.CURRENT_VIEW)
   },
 
-  setCurrentView: (view: 'dashboard' | 'redzone' | 'allleagues') => {
+  setCurrentView: (view: AppView) => {
     storage.set(STORAGE_KEYS.CURRENT_VIEW, view)
   },
 
@@ -237,25 +555,48 @@ export const storage = {
     return storage.get(STORAGE_KEYS.HIDDEN_LEAGUES) || []
   },
 
-  setHiddenLeagues: (leagueIds: string[]) => {
+  setHiddenLeagues: (leagueIds: string[], updatedAt: number = Date.now()) => {
     storage.set(STORAGE_KEYS.HIDDEN_LEAGUES, leagueIds)
+    storage.set(STORAGE_KEYS.HIDDEN_LEAGUES_UPDATED_AT, updatedAt)
+  },
+
+  // When hidden leagues last changed, used to merge synced preferences
+  getHiddenLeaguesUpdatedAt: (): number => {
+    return storage.get(STORAGE_KEYS.HIDDEN_LEAGUES_UPDATED_AT) || 0
+  },
+
+  // Game grid sort mode
+  getGameSort: (): GameSortMode => {
+    return storage.get(STORAGE_KEYS.GAME_SORT) || 'custom'
+  },
+
+  setGameSort: (mode: GameSortMode) => {
+    storage.set(STORAGE_KEYS.GAME_SORT, mode)
   },
 
   // Clear all cache
   clearCache: () => {
     Object.values(STORAGE_KEYS).forEach(key => {
-      localStorage.removeItem(key)
+      storage.remove(key)
     })
   },
 
   // Clear expired cache
   clearExpired: () => {
     Object.values(STORAGE_KEYS).forEach(key => {
+      if (isLargeDataKey(key)) {
+        const cached = largeDataMirror.get(key)
+        if (cached && isExpired(key, cached)) {
+          storage.remove(key)
+        }
+        return
+      }
+
       const item = localStorage.getItem(key)
       if (item) {
         try {
           const cached: CachedData = JSON.parse(item)
-          if (Date.now() - cached.timestamp > CACHE_DURATION) {
+          if (isExpired(key, cached)) {
             localStorage.removeItem(key)
           }
         } catch (error) {
@@ -0,0 +1,88 @@
+// Storage backends used by lib/storage. Every backend stores serialized
+// cache entries by key; lib/storage decides which key lives where.
+export interface StorageBackend {
+  name: string
+  getItem: (key: string) => Promise<string | null>
+  setItem: (key: string, value: string) => Promise<void>
+  removeItem: (key: string) => Promise<void>
+}
+
+// In-memory fallback for environments without IndexedDB (private mode, SSR)
+export const createMemoryBackend = (): StorageBackend => {
+  const items = new Map<string, string>()
+
+  return {
+    name: 'memory',
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: async (key) => {
+      items.delete(key)
+    }
+  }
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// IndexedDB: asynchronous with a quota in the hundreds of megabytes, used for
+// large datasets such as players, lineups and games
+export const createIndexedDBBackend = (
+  databaseName: string = 'redzone-companion',
+  storeName: string = 'cache'
+): StorageBackend => {
+  let databasePromise: Promise<IDBDatabase> | null = null
+
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+      databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          // Allow a later call to retry opening
+          databasePromise = null
+          reject(request.error)
+        }
+      })
+    }
+    return databasePromise
+  }
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase()
+    const transaction = database.transaction(storeName, mode)
+    return requestToPromise(run(transaction.objectStore(storeName)))
+  }
+
+  return {
+    name: 'indexedDB',
+    getItem: async (key) => {
+      const value = await withStore<string | undefined>('readonly', store => store.get(key))
+      return value ?? null
+    },
+    setItem: async (key, value) => {
+      await withStore('readwrite', store => store.put(value, key))
+    },
+    removeItem: async (key) => {
+      await withStore('readwrite', store => store.delete(key))
+    }
+  }
+}
+
+export const isIndexedDBAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null
+  } catch (error) {
+    return false
+  }
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { GameConfig } from './storage'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -32,6 +33,32 @@ export type Database = {
           custom_nickname?: string | null
         }
       }
+      user_preferences: {
+        Row: {
+          id: number
+          user_id: string
+          season: number
+          week: number
+          game_config: GameConfig[]
+          hidden_leagues: string[]
+          hidden_leagues_updated_at: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          season: number
+          week: number
+          game_config?: GameConfig[]
+          hidden_leagues?: string[]
+          hidden_leagues_updated_at?: number
+        }
+        Update: {
+          game_config?: GameConfig[]
+          hidden_leagues?: string[]
+          hidden_leagues_updated_at?: number
+        }
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+// ESPN and Sleeper abbreviate a few NFL teams differently. Sleeper's codes are
+// canonical here, since lineups carry the team from the Sleeper player database.
+const ESPN_TO_SLEEPER: Record<string, string> = {
+  WSH: 'WAS'
+}
+
+// Canonical team abbreviation for an ESPN (or Sleeper) abbreviation
+export const normalizeTeam = (abbreviation: string): string => ESPN_TO_SLEEPER[abbreviation] || abbreviation
\ No newline at end of file
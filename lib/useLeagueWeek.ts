@@ -0,0 +1,246 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { User } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { fetchFilteredCurrentWeekGames, fetchSleeperPlayersByIds, fetchWeekGames } from './api'
+import { ESPNScoreboard, SleeperPlayers, UserLeague } from '@/types'
+import { describeApiError } from './httpClient'
+import { LeagueLoadResult, LeagueLoadState, applyLeagueResults, markLeaguesLoading, pruneLeagueStates } from './leagueLoading'
+import { LeagueWeekData, getLeagueWeekData, loadLeaguesWeek, subscribeLeagueData } from './leagueData'
+import { getLineupPlayerIds } from './lineups'
+import { ResolvedWeek, SEASON_TYPES, WeekSelection, getFantasyWeek } from './weekResolution'
+
+// A user's leagues for one week, loaded into the shared league data store.
+// Views render from the store, so loads started by other views show up too.
+
+// Games of a browsed week, or the current week's when selection is null, and the
+// Sleeper week of their fantasy data. Fantasy leagues do not play in the NFL
+// preseason or postseason, so those weeks have no fantasy week.
+const fetchScoreboardWeek = async (selection: WeekSelection | null) => {
+  const scoreboard = selection ? await fetchWeekGames(selection) : await fetchFilteredCurrentWeekGames()
+  return { scoreboard, fantasyWeek: getFantasyWeek(scoreboard.season.type, scoreboard.week.number) }
+}
+
+export interface LeagueWeekOptions {
+  // Fetch what the view needs to render the store's leagues for the week and
+  // return a function that applies it; it is dropped when a newer rebuild has started
+  rebuild: (leagues: UserLeague[], week: number) => Promise<(() => void) | void>
+  // Apply a loaded week's scoreboard; fantasyWeek is null when fantasy leagues are
+  // not playing. Resolves once the view's own loads for the week are done.
+  onWeekLoaded?: (scoreboard: ESPNScoreboard, fantasyWeek: number | null, selection: WeekSelection | null) => Promise<void> | void
+  // Load the current week as soon as the leagues are known
+  autoLoad?: boolean
+}
+
+export const useLeagueWeek = (user: User, { rebuild, onWeekLoaded, autoLoad = true }: LeagueWeekOptions) => {
+  const [userLeagues, setUserLeagues] = useState<UserLeague[]>([])
+  const [week, setWeek] = useState<ResolvedWeek>({ seasonType: SEASON_TYPES.REGULAR, week: 1 })
+  const [leagueStates, setLeagueStates] = useState<LeagueLoadState[]>([])
+  const [leaguesLoading, setLeaguesLoading] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  // Past or future week being browsed; null follows the current week
+  const [browsedWeek, setBrowsedWeek] = useState<WeekSelection | null>(null)
+  // Sleeper week whose fantasy data goes with the shown games
+  const fantasyWeek = getFantasyWeek(week.seasonType, week.week)
+
+  // Latest values for the store subscription, which outlives individual renders
+  const userLeaguesRef = useRef<UserLeague[]>([])
+  const fantasyWeekRef = useRef<number | null>(null)
+  const browsedWeekRef = useRef<WeekSelection | null>(null)
+  const rebuildSequenceRef = useRef(0)
+  const rebuildRef = useRef(rebuild)
+  const onWeekLoadedRef = useRef(onWeekLoaded)
+  userLeaguesRef.current = userLeagues
+  fantasyWeekRef.current = fantasyWeek
+  browsedWeekRef.current = browsedWeek
+  rebuildRef.current = rebuild
+  onWeekLoadedRef.current = onWeekLoaded
+
+  const fetchUserLeagues = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_leagues')
+        .select('*')
+        .eq('user_id', user.id)
+
+      if (error) throw error
+      setUserLeagues(data || [])
+    } catch (error: any) {
+      setError('Error fetching leagues: ' + error.message)
+    }
+  }
+
+  // Rebuild the view from the shared league data store, once any league has data for the week
+  const rebuildFromStore = useCallback(async () => {
+    const leagues = userLeaguesRef.current
+    const week = fantasyWeekRef.current
+    if (week === null || !leagues.some(league => getLeagueWeekData(league.sleeper_league_id, week))) return
+
+    const sequence = ++rebuildSequenceRef.current
+
+    try {
+      const apply = await rebuildRef.current(leagues, week)
+
+      // A newer rebuild started while this one was loading
+      if (sequence !== rebuildSequenceRef.current) return
+      apply?.()
+    } catch (error: any) {
+      setError('Error fetching lineups: ' + describeApiError(error))
+    }
+  }, [])
+
+  // Load the given leagues into the shared store; failed leagues keep any data
+  // they already have for the week and the store notifies rebuildFromStore
+  const loadLeagueData = useCallback(async (leagues: UserLeague[], week: number, force: boolean) => {
+    setLeagueStates(prev => markLeaguesLoading(prev, leagues))
+    setLeaguesLoading(true)
+
+    const results = await loadLeaguesWeek(leagues, week, { force })
+    setLeagueStates(prev => applyLeagueResults(prev, results, leagueId => !!getLeagueWeekData(leagueId, week)))
+    setLeaguesLoading(false)
+  }, [])
+
+  // Reload a single league from the status strip
+  const retryLeague = useCallback(async (leagueId: string) => {
+    const league = userLeagues.find(l => l.sleeper_league_id === leagueId)
+    if (league && fantasyWeek !== null) {
+      await loadLeagueData([league], fantasyWeek, true)
+    }
+  }, [userLeagues, fantasyWeek, loadLeagueData])
+
+  // Load a browsed week, or the current week when selection is null. Forced
+  // loads refetch every league; others reuse fresh shared league data.
+  const loadWeek = useCallback(async (selection: WeekSelection | null, force: boolean) => {
+    if (userLeagues.length === 0) {
+      setError('No leagues configured. Please add leagues first.')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const { scoreboard, fantasyWeek } = await fetchScoreboardWeek(selection)
+
+      setWeek({ seasonType: scoreboard.season.type, week: scoreboard.week.number })
+      fantasyWeekRef.current = fantasyWeek
+
+      if (fantasyWeek === null) {
+        setLeagueStates([])
+        await onWeekLoadedRef.current?.(scoreboard, null, selection)
+        return
+      }
+
+      setLeagueStates(prev => pruneLeagueStates(prev, userLeagues))
+      await Promise.all([
+        onWeekLoadedRef.current?.(scoreboard, fantasyWeek, selection),
+        loadLeagueData(userLeagues, fantasyWeek, force)
+      ])
+    } catch (error: any) {
+      setError('Error fetching data: ' + describeApiError(error))
+    } finally {
+      setLoading(false)
+    }
+  }, [userLeagues, loadLeagueData])
+
+  const refreshData = useCallback((force = true) => loadWeek(browsedWeekRef.current, force), [loadWeek])
+
+  // Browse to another week, or back to the current week with null
+  const changeWeek = useCallback((selection: WeekSelection | null) => {
+    browsedWeekRef.current = selection
+    setBrowsedWeek(selection)
+    return loadWeek(selection, false)
+  }, [loadWeek])
+
+  // Load user leagues on mount
+  useEffect(() => {
+    fetchUserLeagues()
+  }, [])
+
+  // The view is rebuilt whenever the shared league data changes
+  useEffect(() => subscribeLeagueData(rebuildFromStore), [rebuildFromStore])
+
+  // Auto-refresh when leagues are loaded
+  useEffect(() => {
+    if (autoLoad && userLeagues.length > 0) {
+      refreshData(false)
+    }
+  }, [autoLoad, userLeagues.length, refreshData])
+
+  return {
+    userLeagues,
+    week,
+    // Restore a cached week before the first load
+    setWeek,
+    fantasyWeek,
+    browsedWeek,
+    leagueStates,
+    leaguesLoading,
+    loading,
+    error,
+    setError,
+    rebuildFromStore,
+    retryLeague,
+    refreshData,
+    changeWeek
+  }
+}
+
+// The current week's games and lineups for leagues the caller already has
+export interface CurrentLineups {
+  leagues: UserLeague[]
+  scoreboard: ESPNScoreboard
+  // null when fantasy leagues are not playing
+  fantasyWeek: number | null
+  // Starters of both sides and my reserves in every loaded league
+  players: SleeperPlayers
+  results: LeagueLoadResult<LeagueWeekData>[]
+}
+
+// Load the current week once for every dashboard panel that checks my lineups
+export const useCurrentLineups = (leagues: UserLeague[]) => {
+  const [lineups, setLineups] = useState<CurrentLineups | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const loadSequenceRef = useRef(0)
+
+  // Forced loads refetch every league; others reuse fresh shared league data
+  const load = useCallback(async (force: boolean) => {
+    if (leagues.length === 0) return
+
+    // Only the latest load may update the panels, e.g. after the cached league list is replaced
+    const sequence = ++loadSequenceRef.current
+    const isLatest = () => sequence === loadSequenceRef.current
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const { scoreboard, fantasyWeek } = await fetchScoreboardWeek(null)
+      if (fantasyWeek === null) {
+        if (isLatest()) setLineups({ leagues, scoreboard, fantasyWeek, players: {}, results: [] })
+        return
+      }
+
+      const results = await loadLeaguesWeek(leagues, fantasyWeek, { force })
+      const players = await fetchSleeperPlayersByIds(getLineupPlayerIds(leagues, fantasyWeek, { includeReserves: true }))
+      if (isLatest()) setLineups({ leagues, scoreboard, fantasyWeek, players, results })
+    } catch (error: any) {
+      if (isLatest()) setError('Error loading lineups: ' + describeApiError(error))
+    } finally {
+      if (isLatest()) setLoading(false)
+    }
+  }, [leagues])
+
+  // Load again whenever the league list changes
+  useEffect(() => {
+    load(false)
+  }, [load])
+
+  // Re-check from the panels, picking up lineup changes made in Sleeper since the last load
+  const reload = useCallback(() => load(true), [load])
+
+  return { lineups, loading, error, reload }
+}
\ No newline at end of file
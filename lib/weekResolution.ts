@@ -0,0 +1,204 @@
+import { ESPNGame, ESPNScoreboard, FantasyRound, SleeperLeagueSettings, SleeperNFLState } from '@/types'
+
+// Pure week resolution from Sleeper's NFL state and the ESPN scoreboard. The
+// clock is injected so the week transition can be resolved for any moment.
+
+export type Clock = () => number
+
+export const systemClock: Clock = () => Date.now()
+
+// Assumed length of a game from kickoff to final whistle
+export const GAME_DURATION = 3.5 * 60 * 60 * 1000
+// The previous week stays current this long after its last game ends
+export const WEEK_TRANSITION_DELAY = 6 * 60 * 60 * 1000
+
+// ESPN season types, used by the scoreboard's seasontype parameter
+export const SEASON_TYPES = {
+  PRESEASON: 1,
+  REGULAR: 2,
+  POSTSEASON: 3
+} as const
+
+// Sleeper's NFL state season types as ESPN season types
+const SLEEPER_SEASON_TYPES: Record<string, number> = {
+  pre: SEASON_TYPES.PRESEASON,
+  regular: SEASON_TYPES.REGULAR,
+  post: SEASON_TYPES.POSTSEASON
+}
+
+// ESPN names the postseason weeks after their round
+const POSTSEASON_WEEK_LABELS = ['Wild Card', 'Divisional Round', 'Conference Championships', 'Pro Bowl', 'Super Bowl']
+
+// A week within a season type; week numbers restart in every season type
+export interface ResolvedWeek {
+  seasonType: number
+  week: number
+}
+
+// The off-season counts as the regular season
+export const getSleeperSeasonType = (state: SleeperNFLState | null): number =>
+  SLEEPER_SEASON_TYPES[state?.season_type || ''] || SEASON_TYPES.REGULAR
+
+const getGameSeasonType = (game: ESPNGame, scoreboard: ESPNScoreboard): number =>
+  game.season?.type || scoreboard.season?.type || SEASON_TYPES.REGULAR
+
+const isGameInWeek = (game: ESPNGame, scoreboard: ESPNScoreboard, { seasonType, week }: ResolvedWeek) =>
+  getGameSeasonType(game, scoreboard) === seasonType && game.week?.number === week
+
+// Week numbers of one season type with games on the scoreboard
+export const getScoreboardWeeks = (scoreboard: ESPNScoreboard, seasonType: number): number[] => {
+  const weeks = scoreboard.events
+    .filter(game => getGameSeasonType(game, scoreboard) === seasonType)
+    .map(game => game.week?.number)
+    .filter((week): week is number => !!week)
+  return Array.from(new Set(weeks))
+}
+
+// Kickoff time of the last game of a week on the scoreboard, if any
+export const getLastKickoff = (scoreboard: ESPNScoreboard, week: ResolvedWeek): number | null => {
+  const kickoffs = scoreboard.events
+    .filter(game => isGameInWeek(game, scoreboard, week))
+    .map(game => new Date(game.date).getTime())
+    .filter(time => !Number.isNaN(time))
+
+  return kickoffs.length > 0 ? Math.max(...kickoffs) : null
+}
+
+// The week to show: Sleeper's week, or ESPN's when the scoreboard has no games
+// for Sleeper's week. Sleeper moves on as soon as a week's games are played, so
+// the previous week is kept until its last game is over plus the transition delay.
+// When the scoreboard has no games of Sleeper's season type (e.g. Sleeper still
+// counts regular-season weeks while ESPN shows the playoffs) ESPN decides.
+export const resolveWeek = (state: SleeperNFLState | null, scoreboard: ESPNScoreboard, now: number): ResolvedWeek => {
+  const seasonType = getSleeperSeasonType(state)
+  const sleeperWeek = state?.week || 1
+  const espnSeasonType = scoreboard.season?.type || SEASON_TYPES.REGULAR
+  const espnWeek = scoreboard.week?.number || 1
+  const gameWeeks = getScoreboardWeeks(scoreboard, seasonType)
+
+  if (gameWeeks.length === 0 && scoreboard.events.length > 0) {
+    return { seasonType: espnSeasonType, week: espnWeek }
+  }
+
+  let week = sleeperWeek
+  if (!gameWeeks.includes(sleeperWeek) && espnSeasonType === seasonType && gameWeeks.includes(espnWeek)) {
+    week = espnWeek
+  }
+
+  const lastPreviousKickoff = getLastKickoff(scoreboard, { seasonType, week: sleeperWeek - 1 })
+  if (lastPreviousKickoff !== null && now < lastPreviousKickoff + GAME_DURATION + WEEK_TRANSITION_DELAY) {
+    week = sleeperWeek - 1
+  }
+
+  return { seasonType, week }
+}
+
+// Scoreboard narrowed to one week's games; all games are kept when none match
+export const filterScoreboardWeek = (scoreboard: ESPNScoreboard, week: ResolvedWeek): ESPNScoreboard => {
+  const events = scoreboard.events.filter(game => isGameInWeek(game, scoreboard, week))
+
+  return {
+    ...scoreboard,
+    season: { ...scoreboard.season, type: week.seasonType },
+    week: { number: week.week },
+    events: events.length > 0 ? events : scoreboard.events
+  }
+}
+
+// Display name for a week, e.g. "Week 5", "Preseason Week 2" or "Wild Card"
+export const getWeekLabel = (seasonType: number, week: number): string => {
+  if (seasonType === SEASON_TYPES.PRESEASON) return `Preseason Week ${week}`
+  if (seasonType === SEASON_TYPES.POSTSEASON) return POSTSEASON_WEEK_LABELS[week - 1] || `Postseason Week ${week}`
+  return `Week ${week}`
+}
+
+// Numeric key for a week that stays unique across season types; regular-season
+// weeks keep their number, e.g. for per-week rows in Supabase
+export const getWeekKey = (seasonType: number, week: number): number =>
+  seasonType === SEASON_TYPES.REGULAR ? week : seasonType * 100 + week
+
+// Sleeper week for fantasy data, or null when fantasy leagues are not playing
+// (fantasy seasons, including their playoffs, run within the NFL regular season)
+export const getFantasyWeek = (seasonType: number, week: number): number | null =>
+  seasonType === SEASON_TYPES.REGULAR ? week : null
+
+// Playoff teams when a league does not say
+const DEFAULT_PLAYOFF_TEAMS = 6
+
+// Fantasy playoff round containing a week, or null outside the playoffs
+export const getFantasyRound = (settings: SleeperLeagueSettings | undefined, week: number): FantasyRound | null => {
+  const start = settings?.playoff_week_start
+  if (!start || week < start) return null
+
+  const rounds = Math.max(1, Math.ceil(Math.log2(settings.playoff_teams || DEFAULT_PLAYOFF_TEAMS)))
+  const roundType = settings.playoff_round_type || 0
+
+  let roundStart = start
+  for (let round = 1; round <= rounds; round++) {
+    const length = roundType === 2 || (roundType === 1 && round === rounds) ? 2 : 1
+    if (week < roundStart + length) {
+      return {
+        round,
+        weeks: Array.from({ length }, (_, index) => roundStart + index),
+        weekOfRound: week - roundStart + 1
+      }
+    }
+    roundStart += length
+  }
+
+  return null
+}
+
+// Short label for a playoff round, e.g. "Playoffs round 3 · week 2 of 2"
+export const getFantasyRoundLabel = (round: FantasyRound): string => {
+  const label = `Playoffs round ${round.round}`
+  return round.weeks.length > 1 ? `${label} · week ${round.weekOfRound} of ${round.weeks.length}` : label
+}
+
+// Resolve the current week and narrow the scoreboard to it
+export const resolveCurrentWeek = (
+  state: SleeperNFLState | null,
+  scoreboard: ESPNScoreboard,
+  clock: Clock = systemClock
+): ESPNScoreboard => {
+  return filterScoreboardWeek(scoreboard, resolveWeek(state, scoreboard, clock()))
+}
+
+export const SEASON_TYPE_LABELS: Record<number, string> = {
+  [SEASON_TYPES.PRESEASON]: 'Preseason',
+  [SEASON_TYPES.REGULAR]: 'Regular Season',
+  [SEASON_TYPES.POSTSEASON]: 'Postseason'
+}
+
+// Weeks ESPN numbers within each season type (postseason week 4 is the Pro Bowl)
+const SEASON_TYPE_WEEKS: Record<number, number> = {
+  [SEASON_TYPES.PRESEASON]: 4,
+  [SEASON_TYPES.REGULAR]: 18,
+  [SEASON_TYPES.POSTSEASON]: 5
+}
+
+// A scoreboard week to browse
+export interface WeekSelection extends ResolvedWeek {
+  season: number
+}
+
+export const getSeasonTypeWeeks = (seasonType: number): number => SEASON_TYPE_WEEKS[seasonType] || 1
+
+// Move by whole weeks, crossing from preseason to regular season to postseason
+export const stepWeek = (selection: WeekSelection, delta: number): WeekSelection | null => {
+  let { seasonType, week } = selection
+  week += delta
+
+  while (week < 1) {
+    if (seasonType <= SEASON_TYPES.PRESEASON) return null
+    seasonType--
+    week += getSeasonTypeWeeks(seasonType)
+  }
+  while (week > getSeasonTypeWeeks(seasonType)) {
+    if (seasonType >= SEASON_TYPES.POSTSEASON) return null
+    week -= getSeasonTypeWeeks(seasonType)
+    seasonType++
+  }
+
+  return { season: selection.season, seasonType, week }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { LeagueMatchupProjection, PlayerProjection } from '@/types'
+
+// Typical single-game standard deviation of fantasy points by position
+const POSITION_STD_DEV: Record<string, number> = {
+  QB: 7.5,
+  RB: 7,
+  WR: 7.5,
+  TE: 5.5,
+  K: 4,
+  DEF: 6,
+  DL: 4,
+  LB: 4,
+  DB: 4
+}
+const DEFAULT_STD_DEV = 6
+
+// Probabilities beyond these bounds are shown as locked
+const LOCK_THRESHOLD = 0.99
+
+export interface WinProbability {
+  probability: number
+  playersRemaining: number
+  isLocked: boolean
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26 approximation of erf)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+// Outcome variance still ahead for a player; it shrinks with the game clock
+const getRemainingVariance = (player: PlayerProjection): number => {
+  const stdDev = POSITION_STD_DEV[player.position] ?? DEFAULT_STD_DEV
+  return stdDev * stdDev * player.remainingFraction
+}
+
+// Chance that the user wins a league matchup, modelling the final margin as
+// normally distributed around the projected margin with per-position variance
+// from every starter who still has game time left
+export const getWinProbability = (matchup: LeagueMatchupProjection): WinProbability => {
+  const remainingPlayers = [...matchup.userRoster.players, ...matchup.opponentRoster.players]
+    .filter(player => player.remainingFraction > 0)
+
+  const margin = matchup.userRoster.projectedPoints - matchup.opponentRoster.projectedPoints
+  const variance = remainingPlayers.reduce((total, player) => total + getRemainingVariance(player), 0)
+
+  let probability: number
+  if (variance === 0) {
+    probability = margin > 0 ? 1 : margin < 0 ? 0 : 0.5
+  } else {
+    probability = normalCdf(margin / Math.sqrt(variance))
+  }
+
+  return {
+    probability,
+    playersRemaining: remainingPlayers.length,
+    isLocked: probability >= LOCK_THRESHOLD || probability <= 1 - LOCK_THRESHOLD
+  }
+}
\ No newline at end of file
@@ -8,6 +8,27 @@ export interface SleeperLeague {
   season_type: string
   total_rosters: number
   status: string
+  scoring_settings?: Record<string, number>
+  settings?: SleeperLeagueSettings
+}
+
+// League settings used for fantasy playoff weeks
+export interface SleeperLeagueSettings {
+  playoff_week_start?: number
+  playoff_teams?: number
+  // 0: one week per round, 1: two-week championship, 2: two weeks per round
+  playoff_round_type?: number
+}
+
+// Current NFL calendar position from /state/nfl
+export interface SleeperNFLState {
+  week: number
+  display_week?: number
+  season: string
+  season_type: string
+  leg?: number
+  previous_season?: string
+  season_start_date?: string
 }
 
 export interface SleeperUser {
@@ -26,15 +47,53 @@ export interface SleeperRoster {
   taxi?: string[]
 }
 
+export interface SleeperPlayer {
+  player_id: string
+  first_name: string
+  last_name: string
+  position: string | null
+  team: string | null
+  number?: number | null
+  fantasy_positions?: string[] | null
+  status?: string | null
+  injury_status?: string | null
+  active?: boolean
+}
+
+// Player database keyed by Sleeper player ID
+export type SleeperPlayers = Record<string, SleeperPlayer>
+
 export interface SleeperMatchup {
   roster_id: number
-  matchup_id: number
+  // Null for teams without a game, e.g. eliminated from the playoffs
+  matchup_id: number | null
   points: number
   starters: string[]
   players_points?: Record<string, number>
 }
 
+// Projected stats keyed by stat name (pts_ppr, pts_half_ppr, pts_std, ...)
+export type SleeperProjectionStats = Record<string, number>
+
 // ESPN API Types
+export interface ESPNSituation {
+  down: number
+  distance: number
+  yardLine: number
+  downDistanceText?: string
+  shortDownDistanceText?: string
+  possessionText?: string
+  // ESPN team ID of the team with the ball
+  possession?: string
+  isRedZone: boolean
+  homeTimeouts?: number
+  awayTimeouts?: number
+  lastPlay?: {
+    id: string
+    text: string
+  }
+}
+
 export interface ESPNGame {
   id: string
   uid: string
@@ -127,6 +186,8 @@ export interface ESPNGame {
         shortDetail: string
       }
     }
+    // Only present while the game is in progress
+    situation?: ESPNSituation
     broadcasts: Array<{
       market: string
       names: string[]
@@ -233,6 +294,69 @@ export interface ESPNScoreboard {
   events: ESPNGame[]
 }
 
+export interface ESPNPlay {
+  id: string
+  sequenceNumber?: string
+  type?: {
+    id: string
+    text: string
+    abbreviation?: string
+  }
+  text: string
+  awayScore?: number
+  homeScore?: number
+  period: {
+    number: number
+  }
+  clock: {
+    displayValue: string
+  }
+  scoringPlay?: boolean
+  statYardage?: number
+  start?: {
+    team?: {
+      id: string
+    }
+  }
+}
+
+export interface ESPNScoringPlay extends ESPNPlay {
+  team: {
+    id: string
+    abbreviation: string
+    displayName: string
+    logo?: string
+  }
+  scoringType?: {
+    name: string
+    displayName: string
+    abbreviation: string
+  }
+}
+
+export interface ESPNDrive {
+  id: string
+  description?: string
+  team?: {
+    abbreviation: string
+    displayName: string
+  }
+  plays: ESPNPlay[]
+}
+
+// Game summary (play-by-play) payload
+export interface ESPNSummary {
+  header?: {
+    id: string
+  }
+  drives?: {
+    current?: ESPNDrive
+    previous?: ESPNDrive[]
+  }
+  scoringPlays?: ESPNScoringPlay[]
+  situation?: ESPNSituation
+}
+
 // App Types
 export interface UserLeague {
   id: number
@@ -262,6 +386,9 @@ export interface GameDisplay {
   keyboardNumber: string
 }
 
+// Roster players outside the starting lineup: bench, injured reserve and taxi squad
+export type ReserveSlot = 'bench' | 'reserve' | 'taxi'
+
 export interface PlayerLineup {
   playerId: string
   name: string
@@ -270,5 +397,93 @@ export interface PlayerLineup {
   jerseyNumber?: string
   leagueIds: string[]
   leagueNames: string[]
+  // Live fantasy points per league, parallel to leagueIds (scoring differs per league)
+  leaguePoints: number[]
   isOpponent: boolean
+  // Set for non-starters, which are only included on request
+  slot?: ReserveSlot
+}
+
+// One side of a league matchup as reported by Sleeper
+export interface MatchupSide {
+  rosterId: number
+  owner: string
+  points: number
+  starters: string[]
+  playersPoints: Record<string, number>
+  // Points from earlier weeks of a multi-week playoff round, included in points
+  carriedPoints?: number
+}
+
+// Fantasy playoff round a week belongs to
+export interface FantasyRound {
+  round: number
+  weeks: number[]
+  // 1-based position of the week within the round
+  weekOfRound: number
+}
+
+// The user's head-to-head matchup in one league
+export interface LeagueMatchup {
+  leagueId: string
+  leagueName: string
+  matchupId: number
+  // Projection stat matching the league's reception scoring
+  scoringKey: string
+  // Set during the league's fantasy playoffs
+  round?: FantasyRound
+  userRoster: MatchupSide
+  opponentRoster: MatchupSide | null
+}
+
+export interface PlayerProjection {
+  playerId: string
+  position: string
+  team: string
+  points: number
+  pregameProjection: number
+  // Fraction of the player's NFL game still to be played (0-1)
+  remainingFraction: number
+  projectedPoints: number
+}
+
+export interface MatchupSideProjection {
+  rosterId: number
+  owner: string
+  points: number
+  projectedPoints: number
+  players: PlayerProjection[]
+}
+
+export interface LeagueMatchupProjection {
+  leagueId: string
+  leagueName: string
+  matchupId: number
+  round?: FantasyRound
+  userRoster: MatchupSideProjection
+  opponentRoster: MatchupSideProjection
+}
+
+export type PlayEventKind = 'touchdown' | 'field_goal' | 'turnover' | 'big_play'
+
+// A lineup player involved in a detected play
+export interface PlayInvolvement {
+  playerId: string
+  name: string
+  isOpponent: boolean
+  leagueNames: string[]
+  // Whether the play is good for whoever starts this player
+  helpsMe: boolean
+}
+
+export interface PlayEvent {
+  id: string
+  gameId: string
+  kind: PlayEventKind
+  text: string
+  team: string
+  period: number
+  clock: string
+  detectedAt: number
+  involvements: PlayInvolvement[]
 }
\ No newline at end of file
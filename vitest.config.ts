@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    // Same @/ alias as tsconfig.json
+    alias: {
+      '@': fileURLToPath(new URL('./', import.meta.url))
+    }
+  },
+  test: {
+    include: ['lib/**/*.test.ts']
+  }
+})
\ No newline at end of file